@@ -1,10 +1,11 @@
 import react from "@astrojs/react";
 import tailwindcss from "@tailwindcss/vite";
 import { defineConfig } from "astro/config";
+import { watchLibrary } from "./scripts/watchLibrary.ts";
 
 export default defineConfig({
   output: "static",
-  integrations: [react()],
+  integrations: [react(), watchLibrary()],
   vite: {
     plugins: [tailwindcss()],
   },
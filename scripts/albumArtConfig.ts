@@ -1,3 +1,6 @@
+import type { ArtFormat } from "../src/lib/albumArtTypes.js";
+import { ReleaseType } from "./types.js";
+
 export const ART_CONFIG = {
   // Image file names to search for, in priority order (case-insensitive)
   PRIORITY_FILENAMES: ["cover", "front", "folder"],
@@ -5,12 +8,25 @@ export const ART_CONFIG = {
   // Supported image extensions (case-insensitive)
   SUPPORTED_EXTENSIONS: [".jpg", ".jpeg", ".png", ".webp"],
 
-  // Output size (single image per album, CSS controls display size)
-  IMAGE_SIZE: 500,
+  // Output widths (fit inside a square, never upscaled); pages pick one per
+  // display size with srcset
+  SIZES: [96, 200, 500, 1000],
+
+  // Output formats, preferred first (browsers without AVIF use WebP)
+  FORMATS: ["avif", "webp"] as ArtFormat[],
 
-  // Quality settings (WebP)
+  // Quality settings
+  AVIF_QUALITY: 50,
   WEBP_QUALITY: 80,
 
+  // AVIF encoder effort, 0-9: higher is smaller but much slower
+  AVIF_EFFORT: 4,
+
+  // Placeholder inlined into pages while the art loads: longest side and WebP
+  // quality (a 16px one is a few hundred bytes, stretched and blurred by the browser)
+  PLACEHOLDER_SIZE: 16,
+  PLACEHOLDER_QUALITY: 40,
+
   // Output directory (relative to project root)
   OUTPUT_DIR: "public/album-art",
 
@@ -23,3 +39,23 @@ export const ART_CONFIG = {
   // Concurrency for parallel processing
   CONCURRENCY: 8,
 };
+
+export const COLLAGE_CONFIG = {
+  // Output directory (relative to project root), with artist/ and genre/ below it
+  OUTPUT_DIR: "public/collages",
+
+  // Manifest file path (relative to project root)
+  MANIFEST_PATH: "data/generated/collageManifest.json",
+
+  // Tiles per side: an artist collage is 2x2 covers, a genre mosaic 3x3.
+  // With fewer covers a smaller grid is used, down to a single cover.
+  ARTIST_GRID: 2,
+  GENRE_GRID: 3,
+
+  // Width of one tile in a full grid; a collage is TILE_SIZE x grid wide
+  // whatever grid it ends up with. Covers are read from the nearest rendition.
+  TILE_SIZE: 200,
+
+  // Release types an artist collage takes covers from before any others
+  PREFERRED_TYPES: [ReleaseType.Album, ReleaseType.EP],
+};
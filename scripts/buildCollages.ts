@@ -0,0 +1,280 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import sharp from "sharp";
+import { artFileName } from "../src/lib/albumArtFiles.js";
+import type { ArtManifest, ArtManifestEntry } from "../src/lib/albumArtTypes.js";
+import type { CollageEntry, CollageManifest } from "../src/lib/collageTypes.js";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import { slugify } from "../src/lib/slugify.js";
+import { ART_CONFIG, COLLAGE_CONFIG } from "./albumArtConfig.js";
+import type { CommandOptions, CommandResult } from "./commandOptions.js";
+import { readGeneratedFile, readPreviousFile } from "./generatedData.js";
+import { forEachArtist } from "./traversal.js";
+import type { Artist, Genre, MusicLibrary, Subgenre } from "./types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+// ─── Types ──────────────────────────────────────────────────────────────
+
+interface CollageJob {
+  kind: "artists" | "genres";
+  /** Artist slug or genre path */
+  key: string;
+  file: string;
+  covers: ArtManifestEntry[];
+  /** Tiles per side */
+  grid: number;
+  /** Width of the whole image */
+  width: number;
+}
+
+// ─── Cover selection ────────────────────────────────────────────────────
+
+/** `count` items spread evenly over `items`, keeping their order */
+function sample<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)]);
+}
+
+/** The largest grid up to `maxGrid` that `count` covers fill */
+function gridFor(count: number, maxGrid: number): number {
+  let grid = maxGrid;
+  while (grid > 1 && grid * grid > count) grid--;
+  return grid;
+}
+
+/**
+ * Covers of an artist's master releases, preferred release types first, each
+ * group in release order.
+ */
+function artistCovers(artist: Artist, art: ArtManifest): ArtManifestEntry[] {
+  const preferred: ArtManifestEntry[] = [];
+  const others: ArtManifestEntry[] = [];
+  for (const album of artist.albums) {
+    const entry = art.entries[artist.slug]?.[album.slug];
+    if (!entry || album.masterSlug) continue;
+    (COLLAGE_CONFIG.PREFERRED_TYPES.includes(album.type) ? preferred : others).push(entry);
+  }
+  return [...preferred, ...others];
+}
+
+function createJob(
+  kind: CollageJob["kind"],
+  key: string,
+  covers: ArtManifestEntry[],
+  maxGrid: number,
+): CollageJob | null {
+  if (covers.length === 0) return null;
+  const grid = gridFor(covers.length, maxGrid);
+  return {
+    kind,
+    key,
+    file: `${kind === "artists" ? "artist" : "genre"}/${key}.webp`,
+    covers: sample(covers, grid * grid),
+    grid,
+    width: COLLAGE_CONFIG.TILE_SIZE * maxGrid,
+  };
+}
+
+/**
+ * One collage per artist with art, and one mosaic per genre and subgenre that
+ * samples the first cover of each artist in it (including nested subgenres).
+ */
+function collectJobs(musicData: MusicLibrary, art: ArtManifest): CollageJob[] {
+  const jobs: CollageJob[] = [];
+  const coversByArtist = new Map<string, ArtManifestEntry[]>();
+
+  forEachArtist(musicData, (artist) => {
+    const covers = artistCovers(artist, art);
+    coversByArtist.set(artist.slug, covers);
+    const job = createJob("artists", artist.slug, covers, COLLAGE_CONFIG.ARTIST_GRID);
+    if (job) jobs.push(job);
+  });
+
+  // Returns the slugs of the artists below `node`, for the genres above it
+  function visitGenre(node: Genre | Subgenre, key: string): Set<string> {
+    const artistSlugs = new Set(node.artists.map((artist) => artist.slug));
+    for (const sg of node.subgenres) {
+      const sgKey = sg.fullPath.map((p) => slugify(p)).join("/");
+      for (const slug of visitGenre(sg, sgKey)) artistSlugs.add(slug);
+    }
+
+    const covers = [...artistSlugs]
+      .sort()
+      .flatMap((slug) => coversByArtist.get(slug)?.slice(0, 1) ?? []);
+    const job = createJob("genres", key, covers, COLLAGE_CONFIG.GENRE_GRID);
+    if (job) jobs.push(job);
+    return artistSlugs;
+  }
+  for (const genre of musicData.genres) visitGenre(genre, genre.slug);
+
+  return jobs;
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────────
+
+/** The rendition of a cover closest to `width`, preferring WebP */
+function tilePath(entry: ArtManifestEntry, width: number): string {
+  const dir = path.join(ROOT, ART_CONFIG.OUTPUT_DIR, entry.artistSlug);
+  if (entry.sizes.length === 0) return path.join(dir, artFileName(entry.albumSlug, null, "webp"));
+
+  const size = entry.sizes.find((s) => s >= width) ?? entry.sizes[entry.sizes.length - 1];
+  const format = entry.formats.includes("webp") ? "webp" : entry.formats[0];
+  return path.join(dir, artFileName(entry.albumSlug, size, format));
+}
+
+function coverKeys(job: CollageJob): string[] {
+  return job.covers.map((entry) => `${entry.artistSlug}/${entry.albumSlug}`);
+}
+
+/**
+ * Whether a previous collage used the same covers and is newer than each of
+ * them, so it only changes when the covers do.
+ */
+function isCurrent(job: CollageJob, previous: CollageEntry | undefined): boolean {
+  if (!previous || previous.file !== job.file) return false;
+  if (previous.covers.join() !== coverKeys(job).join()) return false;
+
+  let collageMtimeMs: number;
+  try {
+    collageMtimeMs = fs.statSync(path.join(ROOT, COLLAGE_CONFIG.OUTPUT_DIR, job.file)).mtimeMs;
+  } catch {
+    return false;
+  }
+  const tileWidth = job.width / job.grid;
+  return job.covers.every((entry) => {
+    try {
+      return fs.statSync(tilePath(entry, tileWidth)).mtimeMs < collageMtimeMs;
+    } catch {
+      return false;
+    }
+  });
+}
+
+async function writeCollage(job: CollageJob): Promise<void> {
+  const tileWidth = job.width / job.grid;
+  const tiles = await Promise.all(
+    job.covers.map((entry) =>
+      sharp(tilePath(entry, tileWidth)).resize(tileWidth, tileWidth, { fit: "cover" }).toBuffer(),
+    ),
+  );
+
+  const outputPath = path.join(ROOT, COLLAGE_CONFIG.OUTPUT_DIR, job.file);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  await sharp({
+    create: { width: job.width, height: job.width, channels: 3, background: "#000000" },
+  })
+    .composite(
+      tiles.map((input, i) => ({
+        input,
+        left: (i % job.grid) * tileWidth,
+        top: Math.floor(i / job.grid) * tileWidth,
+      })),
+    )
+    .webp({ quality: ART_CONFIG.WEBP_QUALITY })
+    .toFile(outputPath);
+}
+
+/** Delete images of collages the new manifest no longer has */
+function removeStaleCollages(previous: CollageManifest | null, manifest: CollageManifest): number {
+  const kept = new Set(
+    [...Object.values(manifest.artists), ...Object.values(manifest.genres)].map(
+      (entry) => entry.file,
+    ),
+  );
+  let removed = 0;
+  for (const entry of [
+    ...Object.values(previous?.artists ?? {}),
+    ...Object.values(previous?.genres ?? {}),
+  ]) {
+    if (kept.has(entry.file)) continue;
+    fs.rmSync(path.join(ROOT, COLLAGE_CONFIG.OUTPUT_DIR, entry.file), { force: true });
+    removed++;
+  }
+  return removed;
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+/**
+ * `mlb collages`: build an image per artist from their album covers and a
+ * mosaic per genre sampled across its artists, from the art `mlb art` wrote.
+ * A collage is rebuilt only when its covers change.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
+  const musicDataPath = path.join(ROOT, "data", "generated", "musicData.json");
+  if (!fs.existsSync(musicDataPath)) {
+    console.error("musicData.json not found. Run 'pnpm parse' first.");
+    return { ok: false, error: "musicData.json not found" };
+  }
+  const artManifestPath = path.join(ROOT, ART_CONFIG.MANIFEST_PATH);
+  if (!fs.existsSync(artManifestPath)) {
+    console.error("albumArtManifest.json not found. Run 'pnpm art' first.");
+    return { ok: false, error: "albumArtManifest.json not found" };
+  }
+
+  const musicData = readGeneratedFile<MusicLibrary>(musicDataPath, "musicData");
+  const art = readGeneratedFile<ArtManifest>(artManifestPath, "albumArtManifest");
+  const manifestPath = path.join(ROOT, COLLAGE_CONFIG.MANIFEST_PATH);
+  const previous = readPreviousFile<CollageManifest>(manifestPath, "collageManifest");
+
+  const jobs = collectJobs(musicData, art);
+  const stale = jobs.filter((job) => !isCurrent(job, previous?.[job.kind][job.key]));
+  console.log(`Found ${jobs.length} collages, ${stale.length} to build.\n`);
+
+  if (options.dryRun) {
+    console.log("Dry run: no images written");
+    return { ok: true, collages: jobs.length, toBuild: stale.length };
+  }
+
+  let built = 0;
+  let errors = 0;
+  const failed = new Set<CollageJob>();
+  for (let i = 0; i < stale.length; i += ART_CONFIG.CONCURRENCY) {
+    const batch = stale.slice(i, i + ART_CONFIG.CONCURRENCY);
+    await Promise.all(
+      batch.map(async (job) => {
+        try {
+          await writeCollage(job);
+          built++;
+        } catch (err) {
+          errors++;
+          failed.add(job);
+          console.warn(`  ERROR building ${job.file}: ${err}`);
+        }
+      }),
+    );
+  }
+
+  const manifest: CollageManifest = {
+    schemaVersion: SCHEMA_VERSIONS.collageManifest,
+    generatedAt: new Date().toISOString(),
+    artists: {},
+    genres: {},
+  };
+  for (const job of jobs) {
+    if (failed.has(job)) continue;
+    manifest[job.kind][job.key] = { file: job.file, covers: coverKeys(job) };
+  }
+
+  const removed = removeStaleCollages(previous, manifest);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  console.log("Done!");
+  console.log(`Artist collages: ${Object.keys(manifest.artists).length}`);
+  console.log(`Genre mosaics: ${Object.keys(manifest.genres).length}`);
+  console.log(`Built: ${built}, removed: ${removed}`);
+  if (errors > 0) console.log(`Errors: ${errors}`);
+  console.log(`Manifest: ${manifestPath}`);
+
+  return {
+    ok: true,
+    artists: Object.keys(manifest.artists).length,
+    genres: Object.keys(manifest.genres).length,
+    built,
+    removed,
+    errors,
+  };
+}
@@ -0,0 +1,249 @@
+import fs from "node:fs";
+import type { ChangeKind, Changelog, LibraryChange } from "../src/lib/changelogTypes.js";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import { readPreviousFile } from "./generatedData.js";
+import { forEachArtistAndCompilation } from "./traversal.js";
+import type { Album, MusicLibrary } from "./types.js";
+
+/** An artist or compilation, flattened for comparison */
+interface Owner {
+  entity: "artist" | "compilation";
+  name: string;
+  slug: string;
+  genrePath: string[];
+  rawFolderName: string;
+  albums: Album[];
+}
+
+interface OwnedAlbum {
+  album: Album;
+  owner: Owner;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+function collectOwners(library: MusicLibrary): Map<string, Owner> {
+  const owners = new Map<string, Owner>();
+  forEachArtistAndCompilation(
+    library,
+    (artist) => owners.set(artist.slug, { entity: "artist", ...artist }),
+    (comp) => owners.set(comp.slug, { entity: "compilation", ...comp }),
+  );
+  return owners;
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.join("/") === b.join("/");
+}
+
+/**
+ * Whether two owners share at least half of their album folders, which marks
+ * a renamed folder rather than an unrelated artist replacing another.
+ */
+function sharesAlbums(a: Owner, b: Owner): boolean {
+  const names = new Set(a.albums.map((album) => album.rawFolderName));
+  const shared = b.albums.filter((album) => names.has(album.rawFolderName)).length;
+  return shared > 0 && shared >= Math.min(a.albums.length, b.albums.length) / 2;
+}
+
+function takeMatch<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  const index = items.findIndex(predicate);
+  return index === -1 ? undefined : items.splice(index, 1)[0];
+}
+
+function ownerChange(
+  timestamp: string,
+  kind: ChangeKind,
+  owner: Owner,
+  previous?: Owner,
+): LibraryChange {
+  return {
+    timestamp,
+    kind,
+    entity: owner.entity,
+    name: owner.name,
+    slug: owner.slug,
+    genrePath: owner.genrePath,
+    ...(previous && {
+      previous: { name: previous.name, slug: previous.slug, genrePath: previous.genrePath },
+    }),
+  };
+}
+
+function albumChange(
+  timestamp: string,
+  kind: ChangeKind,
+  { album, owner }: OwnedAlbum,
+  previous?: OwnedAlbum,
+): LibraryChange {
+  return {
+    timestamp,
+    kind,
+    entity: "album",
+    name: album.name,
+    slug: album.slug,
+    genrePath: owner.genrePath,
+    parentName: owner.name,
+    parentSlug: owner.slug,
+    parentEntity: owner.entity,
+    year: album.year,
+    ...(previous && {
+      previous: {
+        name: previous.album.name,
+        slug: previous.album.slug,
+        genrePath: previous.owner.genrePath,
+        parentName: previous.owner.name,
+        parentSlug: previous.owner.slug,
+      },
+    }),
+  };
+}
+
+// ─── Diff ───────────────────────────────────────────────────────────────
+
+/**
+ * Compare two generations of the library. Artists and compilations are matched
+ * by slug (stable via the slug registry), then by folder name (moved between
+ * genres) or shared album folders (renamed). Albums are matched the same way
+ * within their owner, then by folder name across owners.
+ */
+export function diffLibraries(
+  previous: MusicLibrary,
+  next: MusicLibrary,
+  timestamp: string,
+): LibraryChange[] {
+  const before = collectOwners(previous);
+  const after = collectOwners(next);
+  const changes: LibraryChange[] = [];
+
+  const pairs: [Owner, Owner][] = [];
+  const added: Owner[] = [];
+  const removed = [...before.values()].filter((old) => {
+    const current = after.get(old.slug);
+    return !current || current.entity !== old.entity;
+  });
+
+  for (const owner of after.values()) {
+    const old = before.get(owner.slug);
+    if (old && old.entity === owner.entity) pairs.push([old, owner]);
+    else added.push(owner);
+  }
+
+  // Moved or renamed folders get new slugs: pair them with what disappeared
+  for (const owner of [...added]) {
+    const match =
+      takeMatch(
+        removed,
+        (old) => old.entity === owner.entity && old.rawFolderName === owner.rawFolderName,
+      ) ??
+      takeMatch(
+        removed,
+        (old) =>
+          old.entity === owner.entity &&
+          samePath(old.genrePath, owner.genrePath) &&
+          sharesAlbums(old, owner),
+      );
+    if (!match) continue;
+    added.splice(added.indexOf(owner), 1);
+    pairs.push([match, owner]);
+  }
+
+  const addedAlbums: OwnedAlbum[] = [];
+  const removedAlbums: OwnedAlbum[] = [];
+
+  for (const [old, owner] of pairs) {
+    if (!samePath(old.genrePath, owner.genrePath)) {
+      changes.push(ownerChange(timestamp, "moved", owner, old));
+    } else if (old.name !== owner.name) {
+      changes.push(ownerChange(timestamp, "renamed", owner, old));
+    }
+
+    const oldAlbums = [...old.albums];
+    const unmatched: Album[] = [];
+    for (const album of owner.albums) {
+      const match =
+        takeMatch(oldAlbums, (a) => a.slug === album.slug) ??
+        takeMatch(oldAlbums, (a) => a.rawFolderName === album.rawFolderName);
+      if (!match) unmatched.push(album);
+      else if (match.name !== album.name) {
+        changes.push(
+          albumChange(timestamp, "renamed", { album, owner }, { album: match, owner: old }),
+        );
+      }
+    }
+
+    // A single album that swapped folder name within the same year is a rename
+    for (const album of unmatched) {
+      const sameYear = oldAlbums.filter((a) => a.year === album.year);
+      const sameYearNew = unmatched.filter((a) => a.year === album.year);
+      if (sameYear.length === 1 && sameYearNew.length === 1) {
+        const match = takeMatch(oldAlbums, (a) => a === sameYear[0]) as Album;
+        changes.push(
+          albumChange(timestamp, "renamed", { album, owner }, { album: match, owner: old }),
+        );
+      } else {
+        addedAlbums.push({ album, owner });
+      }
+    }
+    removedAlbums.push(...oldAlbums.map((album) => ({ album, owner: old })));
+  }
+
+  for (const owner of added) {
+    changes.push(ownerChange(timestamp, "added", owner));
+    addedAlbums.push(...owner.albums.map((album) => ({ album, owner })));
+  }
+  for (const owner of removed) {
+    changes.push(ownerChange(timestamp, "removed", owner));
+    removedAlbums.push(...owner.albums.map((album) => ({ album, owner })));
+  }
+
+  // Albums that moved to a different artist keep their folder name
+  for (const entry of addedAlbums) {
+    const match = takeMatch(
+      removedAlbums,
+      (old) =>
+        old.owner.slug !== entry.owner.slug &&
+        old.album.rawFolderName === entry.album.rawFolderName,
+    );
+    changes.push(albumChange(timestamp, match ? "moved" : "added", entry, match));
+  }
+  for (const entry of removedAlbums) {
+    changes.push(albumChange(timestamp, "removed", entry));
+  }
+
+  return changes;
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────
+
+/** Changes kept in the file; older ones are dropped as new ones arrive */
+const MAX_CHANGES = 5000;
+
+/**
+ * Append changes to the changelog file, creating it on first use. Only the
+ * newest MAX_CHANGES are kept.
+ */
+export function appendChangelog(
+  changelogPath: string,
+  changes: LibraryChange[],
+  timestamp: string,
+): Changelog {
+  const changelog: Changelog = readPreviousFile(changelogPath, "changelog") ?? {
+    schemaVersion: SCHEMA_VERSIONS.changelog,
+    updatedAt: timestamp,
+    changes: [],
+  };
+
+  changelog.updatedAt = timestamp;
+  changelog.changes = [...changelog.changes, ...changes].slice(-MAX_CHANGES);
+  fs.writeFileSync(changelogPath, JSON.stringify(changelog, null, 2));
+  return changelog;
+}
+
+export function summarizeChanges(changes: LibraryChange[]): string {
+  const counts = new Map<ChangeKind, number>();
+  for (const change of changes) counts.set(change.kind, (counts.get(change.kind) ?? 0) + 1);
+  return (["added", "removed", "moved", "renamed"] as ChangeKind[])
+    .map((kind) => `${counts.get(kind) ?? 0} ${kind}`)
+    .join(", ");
+}
@@ -0,0 +1,152 @@
+import { slugify } from "../src/lib/slugify.js";
+import { forEachArtistAndCompilation } from "./traversal.js";
+import type { Artist, Compilation, MusicLibrary } from "./types.js";
+
+/**
+ * Flags shared by the `mlb` subcommands (see scripts/mlb.ts). Each command
+ * declares which of them it accepts.
+ */
+export interface CommandOptions {
+  /** Only the artists and compilations with these slugs */
+  only: string[];
+  /** Only artists and compilations filed under this genre, e.g. "metal/doom" */
+  genre?: string;
+  /** Report what would be done without writing files or calling APIs */
+  dryRun: boolean;
+  /** Print the command's summary as JSON on stdout; logs go to stderr */
+  json: boolean;
+  /** Process at most this many artists */
+  limit?: number;
+  /** Folder names to skip while scanning */
+  ignore: string[];
+  /** Rescan only these folders (paths below the library root) */
+  folders: string[];
+  /** Run every pipeline stage, even when its outputs are up to date */
+  force: boolean;
+}
+
+export const DEFAULT_OPTIONS: CommandOptions = {
+  only: [],
+  dryRun: false,
+  json: false,
+  ignore: [],
+  folders: [],
+  force: false,
+};
+
+/**
+ * Summary of a finished command, printed by `--json`. `ok` is false when the
+ * command ran but found problems, which exits with code 1.
+ */
+export interface CommandResult {
+  ok: boolean;
+  [key: string]: unknown;
+}
+
+export type CommandLoader = () => Promise<{
+  run: (options: CommandOptions) => Promise<CommandResult>;
+}>;
+
+/**
+ * A problem that stops a command before it can do its work, such as a
+ * malformed config file. Its message is written for the user.
+ */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+/**
+ * Load and run a command. A CommandError thrown by either becomes a failed
+ * result, so `--json` and the pipeline summary still report it.
+ */
+export async function runCommand(
+  load: CommandLoader,
+  options: CommandOptions,
+): Promise<CommandResult> {
+  try {
+    const { run } = await load();
+    return await run(options);
+  } catch (err) {
+    if (!(err instanceof CommandError)) throw err;
+    console.error(err.message);
+    return { ok: false, error: err.message };
+  }
+}
+
+/** Whether --only or --genre narrows the command to part of the library */
+export function hasSelection(options: CommandOptions): boolean {
+  return options.only.length > 0 || Boolean(options.genre);
+}
+
+/**
+ * Whether --only and --genre select an artist or compilation. Genres match by
+ * slug from the top, so "metal/doom" and "Metal > Doom" both select Doom and
+ * its subgenres.
+ */
+export function isSelected(options: CommandOptions, owner: Artist | Compilation): boolean {
+  if (options.only.length > 0) {
+    const slugs = [owner.slug, ...("slugAliases" in owner ? (owner.slugAliases ?? []) : [])];
+    if (!slugs.some((slug) => options.only.includes(slug))) return false;
+  }
+  if (options.genre) {
+    const prefix = options.genre
+      .split(/\s*[/>]\s*/)
+      .filter(Boolean)
+      .map(slugify);
+    const genrePaths = "genrePaths" in owner ? owner.genrePaths : [owner.genrePath];
+    return genrePaths.some((genrePath) =>
+      prefix.every((slug, i) => i < genrePath.length && slugify(genrePath[i]) === slug),
+    );
+  }
+  return true;
+}
+
+/**
+ * Slugs of the artists and compilations a command works on. Reports when
+ * --only or --genre matches nothing, as that is usually a typo.
+ */
+export function selectOwners(options: CommandOptions, musicData: MusicLibrary): Set<string> {
+  const selected = new Set<string>();
+  const visit = (owner: Artist | Compilation) => {
+    if (isSelected(options, owner)) selected.add(owner.slug);
+  };
+  forEachArtistAndCompilation(musicData, visit, visit);
+
+  if (hasSelection(options) && selected.size === 0) {
+    console.warn(`Nothing matches ${describeSelection(options)}`);
+  }
+  return selected;
+}
+
+/** "--only candlemass --genre metal/doom", for log lines */
+export function describeSelection(options: CommandOptions): string {
+  return [
+    ...options.only.map((slug) => `--only ${slug}`),
+    ...(options.genre ? [`--genre ${options.genre}`] : []),
+  ].join(" ");
+}
+
+/**
+ * Previous manifest entries (owner slug → album slug → entry) of the owners a
+ * command did not select, so a partial run keeps them instead of dropping
+ * them. Entries of owners no longer in `owners` are dropped.
+ */
+export function keepUnselected<T>(
+  entries: Record<string, Record<string, T>> | undefined,
+  selected: Set<string>,
+  owners: Set<string>,
+): Record<string, Record<string, T>> {
+  const kept: Record<string, Record<string, T>> = {};
+  for (const [ownerSlug, albums] of Object.entries(entries ?? {})) {
+    if (owners.has(ownerSlug) && !selected.has(ownerSlug)) kept[ownerSlug] = albums;
+  }
+  return kept;
+}
+
+/** Number of album entries in a manifest */
+export function countEntries(entries: Record<string, Record<string, unknown>>): number {
+  return Object.values(entries).reduce((sum, albums) => sum + Object.keys(albums).length, 0);
+}
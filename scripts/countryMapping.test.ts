@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findUnknownCountryCodes,
+  isCountryCode,
+  isMultiCountryCode,
+  resolveCountry,
+  resolveIsoCodes,
+  resolveMultiCountry,
+} from "./countryMapping.js";
+
+// Custom codes come from library.config.json
+
+describe("resolveCountry", () => {
+  it("resolves custom codes in any case, ISO codes and English names", () => {
+    assert.equal(resolveCountry("Swe"), "Sweden");
+    assert.equal(resolveCountry("swe"), "Sweden");
+    assert.equal(resolveCountry("SE"), "Sweden");
+    assert.equal(resolveCountry("KOR"), "South Korea");
+    assert.equal(resolveCountry("South Korea"), "South Korea");
+  });
+
+  it("returns null for false positives and unknown codes", () => {
+    assert.equal(resolveCountry("Live"), null);
+    assert.equal(resolveCountry("Xyz"), null);
+    assert.equal(resolveCountry(null), null);
+  });
+});
+
+describe("resolveIsoCodes", () => {
+  it("splits multi-country codes on - and &", () => {
+    assert.deepEqual(resolveIsoCodes("Aut-UK"), ["at", "gb"]);
+    assert.deepEqual(resolveIsoCodes("Isr&UK"), ["il", "gb"]);
+  });
+
+  it("keeps a hyphenated country name whole", () => {
+    assert.deepEqual(resolveIsoCodes("Guinea-Bissau"), ["gw"]);
+  });
+
+  it("leaves out unknown parts", () => {
+    assert.deepEqual(resolveIsoCodes("Fin-Xyz"), ["fi"]);
+    assert.deepEqual(resolveIsoCodes(null), []);
+  });
+});
+
+describe("isCountryCode", () => {
+  it("needs every part of a multi-country code to be known", () => {
+    assert.equal(isCountryCode("Aut-UK"), true);
+    assert.equal(isCountryCode("Aut-Xyz"), false);
+    assert.equal(isCountryCode("Live"), false);
+  });
+
+  it("counts only the library's own codes when not standard", () => {
+    assert.equal(isCountryCode("SE"), true);
+    assert.equal(isCountryCode("SE", false), false);
+    assert.equal(isCountryCode("Swe", false), true);
+  });
+});
+
+describe("isMultiCountryCode", () => {
+  it("matches joined 2-3 letter codes only", () => {
+    assert.equal(isMultiCountryCode("Aut-UK"), true);
+    assert.equal(isMultiCountryCode("Swe"), false);
+    assert.equal(isMultiCountryCode("Re-Mastered"), false);
+  });
+});
+
+describe("resolveMultiCountry", () => {
+  it("joins the names of the known parts", () => {
+    assert.equal(resolveMultiCountry("Fin-Swe-Nor"), "Finland / Sweden / Norway");
+    assert.equal(resolveMultiCountry("Aut-Xyz"), "Austria");
+    assert.equal(resolveMultiCountry("Xyz"), null);
+  });
+});
+
+describe("findUnknownCountryCodes", () => {
+  it("reports code-shaped parentheticals that do not resolve", () => {
+    assert.deepEqual(findUnknownCountryCodes("Band (Xyz)"), ["Xyz"]);
+    assert.deepEqual(findUnknownCountryCodes("Band (Aut-Xy) (later)"), ["Xy"]);
+  });
+
+  it("skips countries, tags and false positives", () => {
+    assert.deepEqual(findUnknownCountryCodes("Band (Swe) (Live)"), []);
+    assert.deepEqual(findUnknownCountryCodes("Band (early)"), []);
+  });
+});
@@ -1,296 +1,157 @@
+import isoCountries from "i18n-iso-countries";
+import { loadLibraryConfig } from "./libraryConfig.js";
+
+const config = loadLibraryConfig();
+
 /**
  * Maps the custom country codes found in the music library folder names
- * to full country names. These are mostly non-standard abbreviations.
+ * to full country names. These are mostly non-standard abbreviations,
+ * declared under `countries` in library.config.json. Standard ISO 3166-1
+ * codes and English country names resolve without an entry.
  */
-export const COUNTRY_CODE_MAP: Record<string, string> = {
-  // Two-letter codes
-  NL: "Netherlands",
-  NZ: "New Zealand",
-  UK: "United Kingdom",
-  US: "United States",
-  Ro: "Romania",
-
-  // Three-letter codes (alphabetical)
-  And: "Andorra",
-  Arg: "Argentina",
-  Aus: "Australia",
-  Aut: "Austria",
-  Bel: "Belgium",
-  Blr: "Belarus",
-  Bra: "Brazil",
-  Bul: "Bulgaria",
-  Can: "Canada",
-  Chi: "Chile",
-  Col: "Colombia",
-  Cze: "Czechia",
-  Den: "Denmark",
-  Egy: "Egypt",
-  Esp: "Spain",
-  Est: "Estonia",
-  Fin: "Finland",
-  Fra: "France",
-  Fro: "Faroe Islands",
-  Geo: "Georgia",
-  Ger: "Germany",
-  Gre: "Greece",
-  Gui: "Guatemala",
-  Hun: "Hungary",
-  Ice: "Iceland",
-  Ind: "India",
-  Ire: "Ireland",
-  Isl: "Iceland",
-  Isr: "Israel",
-  Ita: "Italy",
-  Jam: "Jamaica",
-  Jap: "Japan",
-  Jor: "Jordan",
-  Kgz: "Kyrgyzstan",
-  Kor: "South Korea",
-  Lat: "Latvia",
-  Leb: "Lebanon",
-  Lit: "Lithuania",
-  Mal: "Malaysia",
-  Mex: "Mexico",
-  Mlt: "Malta",
-  Nor: "Norway",
-  Per: "Peru",
-  Phi: "Philippines",
-  Pol: "Poland",
-  Por: "Portugal",
-  Prt: "Portugal",
-  Rom: "Romania",
-  Rus: "Russia",
-  Ser: "Serbia",
-  Slo: "Slovenia",
-  Slv: "Slovenia",
-  Sui: "Switzerland",
-  Svk: "Slovakia",
-  Swe: "Sweden",
-  Tha: "Thailand",
-  Tun: "Tunisia",
-  Tur: "Turkey",
-  Twn: "Taiwan",
-  Ukr: "Ukraine",
-  USA: "United States",
-  Ven: "Venezuela",
-};
+export const COUNTRY_CODE_MAP: Record<string, string> = Object.fromEntries(
+  Object.entries(config.countries).map(([code, country]) => [code, country.name]),
+);
 
 /**
  * Known non-country-code values that appear in parentheses in folder names.
  * Used to avoid false positive artist detection.
  */
-export const FALSE_POSITIVE_CODES = new Set([
-  // Media/format tags
-  "EP",
-  "CDS",
-  "CDM",
-  "DVD",
-  "2CD",
-  "CD1",
-  "CD2",
-  "CD3",
-  "CD4",
-  "CD5",
-  "CD6",
-  "CD7",
-  "CD8",
-  "CD9",
-  // Quality/format
-  "Lossless",
-  "Lossles",
-  // Release type
-  "Live",
-  "Demo",
-  "Promo",
-  "Split",
-  "Compilation",
-  "Remix",
-  "Remixes",
-  "Remaster",
-  "Remastered",
-  "Re-Mastered",
-  "Bootleg",
-  "Tribute",
-  "Unreleased",
-  "Vinyl",
-  "Discography",
-  // Genre tags that appear in parens on albums
-  "Acoustic",
-  "Orchestral",
-  "Instrumental",
-  "Trance",
-  "Techno",
-  "House",
-  "Chill",
-  "Dance",
-  "Dancecore",
-  "Rock",
-  "RnB",
-  "Chant",
-  "Flash",
-  "V-Rock",
-  "Wildstyle",
-  // Rating
-  "PG",
-  "PG13",
-  // Audio format
-  "m4a",
-  "ogg",
-  // Misc false positives
-  "Flo",
-  "Ins",
-  "Not",
-  "N",
-  "ID",
-  "Feat",
-  "Miss",
-  "Reloaded",
-  "Trackfix",
-  "Spain",
-]);
+export const FALSE_POSITIVE_CODES = config.falsePositiveCodes;
 
 /**
  * Known artist tags that appear after the country code in parentheses.
  * e.g., "Underoath (US) (later)" → tags: ["later"]
  */
-export const ARTIST_TAGS = new Set([
-  "early",
-  "middle",
-  "later",
-  "acoustic",
-  "instrumental",
-  "female vocals",
-]);
+export const ARTIST_TAGS = config.artistTags;
 
 /**
  * Maps custom country codes to ISO 3166-1 alpha-2 codes (lowercase)
  * for use with circle-flags CDN.
  */
-export const CUSTOM_TO_ISO: Record<string, string> = {
-  // Two-letter codes
-  NL: "nl",
-  NZ: "nz",
-  UK: "gb",
-  US: "us",
-  Ro: "ro",
+export const CUSTOM_TO_ISO: Record<string, string> = Object.fromEntries(
+  Object.entries(config.countries).map(([code, country]) => [code, country.iso]),
+);
 
-  // Three-letter codes (alphabetical)
-  And: "ad",
-  Arg: "ar",
-  Aus: "au",
-  Aut: "at",
-  Bel: "be",
-  Blr: "by",
-  Bra: "br",
-  Bul: "bg",
-  Can: "ca",
-  Chi: "cl",
-  Col: "co",
-  Cze: "cz",
-  Den: "dk",
-  Egy: "eg",
-  Esp: "es",
-  Est: "ee",
-  Fin: "fi",
-  Fra: "fr",
-  Fro: "fo",
-  Geo: "ge",
-  Ger: "de",
-  Gre: "gr",
-  Gui: "gt",
-  Hun: "hu",
-  Ice: "is",
-  Ind: "in",
-  Ire: "ie",
-  Isl: "is",
-  Isr: "il",
-  Ita: "it",
-  Jam: "jm",
-  Jap: "jp",
-  Jor: "jo",
-  Kgz: "kg",
-  Kor: "kr",
-  Lat: "lv",
-  Leb: "lb",
-  Lit: "lt",
-  Mal: "my",
-  Mex: "mx",
-  Mlt: "mt",
-  Nor: "no",
-  Per: "pe",
-  Phi: "ph",
-  Pol: "pl",
-  Por: "pt",
-  Prt: "pt",
-  Rom: "ro",
-  Rus: "ru",
-  Ser: "rs",
-  Slo: "si",
-  Slv: "si",
-  Sui: "ch",
-  Svk: "sk",
-  Swe: "se",
-  Tha: "th",
-  Tun: "tn",
-  Tur: "tr",
-  Twn: "tw",
-  Ukr: "ua",
-  USA: "us",
-  Ven: "ve",
-};
-
-export function resolveIsoCode(customCode: string): string | null {
-  if (CUSTOM_TO_ISO[customCode]) return CUSTOM_TO_ISO[customCode];
+/** Common English names for ISO codes ("South Korea" rather than "Korea, Republic of") */
+const REGION_NAMES = new Intl.DisplayNames("en", { type: "region" });
 
-  const normalized = customCode.charAt(0).toUpperCase() + customCode.slice(1).toLowerCase();
-  if (CUSTOM_TO_ISO[normalized]) return CUSTOM_TO_ISO[normalized];
+/** Separates the countries of a multi-country code: "Aut-UK", "Isr&UK", "Fin-Swe-Nor" */
+const COUNTRY_SEPARATOR = /\s*[-&]\s*/;
 
-  const upper = customCode.toUpperCase();
-  if (CUSTOM_TO_ISO[upper]) return CUSTOM_TO_ISO[upper];
+/** A parenthetical shaped like a (multi-)country code, e.g. "Xyz" or "Aut-Xy" */
+const CODE_LIKE = /^\p{L}{2,3}(?:\s*[-&]\s*\p{L}{2,3})*$/u;
 
-  return null;
+/**
+ * Look a code up in a custom map: as written, capitalized ("swe" → "Swe"),
+ * then uppercase ("us" → "US").
+ */
+function lookupCustom<T>(map: Record<string, T>, code: string): T | undefined {
+  const normalized = code.charAt(0).toUpperCase() + code.slice(1).toLowerCase();
+  return map[code] ?? map[normalized] ?? map[code.toUpperCase()];
 }
 
 /**
- * Resolve a (possibly multi-country) custom code to an array of ISO codes.
- * "Aut-UK" -> ["at", "gb"], "Ger" -> ["de"], null -> []
+ * ISO 3166-1 alpha-2 code for a standard alpha-2 or alpha-3 code ("SE", "Swe")
+ * or an English country name ("Sweden", "South Korea").
  */
-export function resolveIsoCodes(customCode: string | null): string[] {
-  if (!customCode) return [];
-  const parts = customCode.split(/[-&]/);
-  return parts.map((p) => resolveIsoCode(p.trim())).filter((code): code is string => code !== null);
+function lookupIso(value: string): string | null {
+  const upper = value.toUpperCase();
+  let alpha2: string | undefined;
+  if (/^[A-Z]{2}$/.test(upper)) alpha2 = isoCountries.isValid(upper) ? upper : undefined;
+  else if (/^[A-Z]{3}$/.test(upper)) alpha2 = isoCountries.alpha3ToAlpha2(upper);
+  else alpha2 = isoCountries.getAlpha2Code(value, "en");
+  return alpha2 ?? null;
+}
+
+export function resolveIsoCode(customCode: string): string | null {
+  if (FALSE_POSITIVE_CODES.has(customCode)) return null;
+  return lookupCustom(CUSTOM_TO_ISO, customCode) ?? lookupIso(customCode)?.toLowerCase() ?? null;
+}
+
+/** Full name for one of the library's own codes in library.config.json */
+function resolveCustomCountry(code: string): string | null {
+  if (FALSE_POSITIVE_CODES.has(code)) return null;
+  return lookupCustom(COUNTRY_CODE_MAP, code) ?? null;
 }
 
 export function resolveCountry(code: string | null): string | null {
-  if (!code) return null;
+  if (!code || FALSE_POSITIVE_CODES.has(code)) return null;
 
-  // Direct lookup (case-sensitive first since most codes match directly)
-  if (COUNTRY_CODE_MAP[code]) return COUNTRY_CODE_MAP[code];
+  // Custom codes first, so the library's own names win over ISO names
+  const custom = resolveCustomCountry(code);
+  if (custom) return custom;
 
-  // Try case-insensitive by capitalizing first letter
-  const normalized = code.charAt(0).toUpperCase() + code.slice(1).toLowerCase();
-  if (COUNTRY_CODE_MAP[normalized]) return COUNTRY_CODE_MAP[normalized];
+  const alpha2 = lookupIso(code);
+  return alpha2 ? (REGION_NAMES.of(alpha2) ?? null) : null;
+}
 
-  // Try uppercase (for 2-letter codes like "us" → "US")
-  const upper = code.toUpperCase();
-  if (COUNTRY_CODE_MAP[upper]) return COUNTRY_CODE_MAP[upper];
+/**
+ * The single countries of a code: the whole value when it resolves (so
+ * "Guinea-Bissau" stays one country), else its parts split on - or &.
+ */
+function countryParts(code: string): string[] {
+  if (resolveCountry(code)) return [code];
+  return code.split(COUNTRY_SEPARATOR).filter(Boolean);
+}
 
-  return null;
+/**
+ * Resolve a (possibly multi-country) custom code to an array of ISO codes.
+ * "Aut-UK" -> ["at", "gb"], "Ger" -> ["de"], null -> []
+ */
+export function resolveIsoCodes(customCode: string | null): string[] {
+  if (!customCode) return [];
+  return countryParts(customCode)
+    .map((part) => resolveIsoCode(part))
+    .filter((code): code is string => code !== null);
 }
 
 /**
- * Checks if a parenthetical value is a known country code.
+ * Checks if a parenthetical value is a known country code or name, or a
+ * multi-country code whose every part is known. With `standard` false only the
+ * library's own codes count, not ISO codes or English country names.
  */
-export function isCountryCode(value: string): boolean {
+export function isCountryCode(value: string, standard = true): boolean {
   if (FALSE_POSITIVE_CODES.has(value)) return false;
-  return resolveCountry(value) !== null;
+  const resolve = standard ? resolveCountry : resolveCustomCountry;
+  const parts = countryParts(value);
+  return parts.length > 0 && parts.every((part) => resolve(part) !== null);
+}
+
+/**
+ * Whether a value is shaped like a multi-country code ("Aut-UK", "Fin-Swe-Nor"),
+ * known or not.
+ */
+export function isMultiCountryCode(value: string): boolean {
+  return CODE_LIKE.test(value) && COUNTRY_SEPARATOR.test(value);
 }
 
 /**
- * Resolve a multi-country code like "Aut-UK" or "Isr&UK" to full names.
+ * Resolve a multi-country code like "Aut-UK", "Isr&UK" or "Fin-Swe-Nor" to full
+ * names; a single code resolves to its one name. Unknown parts are left out.
  */
 export function resolveMultiCountry(code: string): string | null {
-  const parts = code.split(/[-&]/);
-  const resolved = parts.map((p) => resolveCountry(p.trim())).filter(Boolean);
+  const resolved = countryParts(code)
+    .map((part) => resolveCountry(part))
+    .filter(Boolean);
   return resolved.length > 0 ? resolved.join(" / ") : null;
 }
+
+/**
+ * Parentheticals in a folder name that look like country codes (2-3 letters,
+ * alone or joined by - or &) but do not resolve, e.g. "Xyz" in "Band (Xyz)".
+ * Tags and known false positives are not reported.
+ */
+export function findUnknownCountryCodes(folderName: string): string[] {
+  const unknown: string[] = [];
+  for (const [, value] of folderName.matchAll(/\(([^()]+)\)/g)) {
+    const code = value.trim();
+    if (!CODE_LIKE.test(code) || FALSE_POSITIVE_CODES.has(code)) continue;
+    if (ARTIST_TAGS.has(code.toLowerCase())) continue;
+    for (const part of countryParts(code)) {
+      if (resolveCountry(part) || FALSE_POSITIVE_CODES.has(part)) continue;
+      if (!unknown.includes(part)) unknown.push(part);
+    }
+  }
+  return unknown;
+}
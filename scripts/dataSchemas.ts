@@ -0,0 +1,365 @@
+import { z } from "zod";
+import type { ArtManifest, ArtManifestEntry } from "../src/lib/albumArtTypes.js";
+import type { Changelog, LibraryChange } from "../src/lib/changelogTypes.js";
+import type { CollageEntry, CollageManifest } from "../src/lib/collageTypes.js";
+import type {
+  LocalTrack,
+  LocalTrackEntry,
+  LocalTrackManifest,
+} from "../src/lib/localTrackTypes.js";
+import type {
+  SpotifyAlbumEntry,
+  SpotifyAlbumManifest,
+  SpotifyArtistEntry,
+  SpotifyArtistManifest,
+  SpotifyTrack,
+} from "../src/lib/spotifyTypes.js";
+import {
+  type Album,
+  type AlbumDisc,
+  type AlbumEdition,
+  type AlbumFormat,
+  type AlbumMedia,
+  type AlbumParticipant,
+  type Artist,
+  type ArtistAppearance,
+  type ArtistEra,
+  type BoxSetRelease,
+  type Compilation,
+  type Genre,
+  type LibraryStats,
+  type MusicLibrary,
+  type ReleaseDate,
+  ReleaseType,
+  type SearchEntry,
+  type SearchIndex,
+  type Subgenre,
+} from "./types.js";
+
+// Runtime mirrors of the generated data types. Each schema is typed against its
+// interface, so a field added to one without the other fails `pnpm typecheck`.
+// Unknown keys are ignored, like the site ignores them. Files are upgraded with
+// migrateData before they are checked.
+
+const schemaVersion = z.number().int().nonnegative();
+
+// ─── Music data ─────────────────────────────────────────────────────────
+
+const releaseType = z.nativeEnum(ReleaseType);
+
+const albumMedia: z.ZodType<AlbumMedia> = z.object({
+  audioFileCount: z.number().int().nonnegative(),
+  totalBytes: z.number().nonnegative(),
+  extensions: z.array(z.string()),
+  newestMtime: z.string().nullable(),
+});
+
+const albumFormat: z.ZodType<AlbumFormat> = z.object({
+  rawFolderName: z.string(),
+  markers: z.array(z.string()),
+  extensions: z.array(z.string()),
+  lossless: z.boolean(),
+});
+
+const albumDisc: z.ZodType<AlbumDisc> = z.object({
+  number: z.number().int(),
+  title: z.string().nullable(),
+  rawFolderName: z.string(),
+});
+
+const boxSetRelease: z.ZodType<BoxSetRelease> = z.object({
+  name: z.string(),
+  year: z.number().int().nullable(),
+  type: releaseType,
+  rawFolderName: z.string(),
+  discs: z.array(albumDisc),
+  extras: z.array(z.string()),
+});
+
+const albumEdition: z.ZodType<AlbumEdition> = z.object({
+  slug: z.string().min(1),
+  year: z.number().int().nullable(),
+  reissue: z.string().optional(),
+  reissueYear: z.number().int().nullable(),
+  rawFolderName: z.string(),
+  lossless: z.boolean(),
+});
+
+const releaseDate: z.ZodType<ReleaseDate> = z.object({
+  year: z.number().int(),
+  month: z.number().int().min(1).max(12).optional(),
+  day: z.number().int().min(1).max(31).optional(),
+  endYear: z.number().int().optional(),
+  recordedYear: z.number().int().optional(),
+  uncertain: z.boolean().optional(),
+});
+
+const albumParticipant: z.ZodType<AlbumParticipant> = z.object({
+  name: z.string().min(1),
+  artistSlug: z.string().min(1).optional(),
+});
+
+const album: z.ZodType<Album> = z.object({
+  name: z.string(),
+  slug: z.string().min(1),
+  year: z.number().int().nullable(),
+  releaseDate: releaseDate.nullable(),
+  type: releaseType,
+  reissue: z.string().optional(),
+  hasMultipleDiscs: z.boolean(),
+  discCount: z.number().int().nonnegative(),
+  discs: z.array(albumDisc),
+  extras: z.array(z.string()),
+  releases: z.array(boxSetRelease).optional(),
+  rawFolderName: z.string(),
+  folderPath: z.array(z.string()).min(1),
+  formats: z.array(albumFormat).min(1),
+  media: albumMedia.optional(),
+  masterSlug: z.string().min(1).optional(),
+  editions: z.array(albumEdition).optional(),
+  participants: z.array(albumParticipant).optional(),
+});
+
+const artistAppearance: z.ZodType<ArtistAppearance> = z.object({
+  artistSlug: z.string().min(1),
+  albumSlug: z.string().min(1),
+});
+
+const artistEra: z.ZodType<ArtistEra> = z.object({
+  tags: z.array(z.string()),
+  genrePath: z.array(z.string()).min(1),
+  rawFolderName: z.string(),
+  albumSlugs: z.array(z.string().min(1)),
+});
+
+const artist: z.ZodType<Artist> = z.object({
+  name: z.string(),
+  slug: z.string().min(1),
+  countryCode: z.string().nullable(),
+  country: z.string().nullable(),
+  isoCodes: z.array(z.string()),
+  tags: z.array(z.string()),
+  genrePath: z.array(z.string()).min(1),
+  genrePaths: z.array(z.array(z.string()).min(1)).min(1),
+  albums: z.array(album),
+  rawFolderName: z.string(),
+  slugAliases: z.array(z.string().min(1)).optional(),
+  slugAliasFolders: z.record(z.string()).optional(),
+  appearsOn: z.array(artistAppearance).optional(),
+  eras: z.array(artistEra).min(2).optional(),
+});
+
+const compilation: z.ZodType<Compilation> = z.object({
+  name: z.string(),
+  slug: z.string().min(1),
+  genrePath: z.array(z.string()).min(1),
+  albums: z.array(album),
+  rawFolderName: z.string(),
+  slugAliases: z.array(z.string().min(1)).optional(),
+});
+
+const subgenre: z.ZodType<Subgenre> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    slug: z.string().min(1),
+    fullPath: z.array(z.string()).min(1),
+    subgenres: z.array(subgenre),
+    artists: z.array(artist),
+    compilations: z.array(compilation),
+  }),
+);
+
+const genre: z.ZodType<Genre> = z.object({
+  name: z.string(),
+  slug: z.string().min(1),
+  subgenres: z.array(subgenre),
+  artists: z.array(artist),
+  compilations: z.array(compilation),
+});
+
+const libraryStats: z.ZodType<LibraryStats> = z.object({
+  totalGenres: z.number().int().nonnegative(),
+  totalSubgenres: z.number().int().nonnegative(),
+  totalArtists: z.number().int().nonnegative(),
+  totalAlbums: z.number().int().nonnegative(),
+  totalCompilations: z.number().int().nonnegative(),
+  generatedAt: z.string(),
+});
+
+export const musicLibrarySchema: z.ZodType<MusicLibrary> = z.object({
+  schemaVersion,
+  genres: z.array(genre),
+  stats: libraryStats,
+});
+
+// ─── Search index ───────────────────────────────────────────────────────
+
+const searchEntry: z.ZodType<SearchEntry> = z.object({
+  type: z.enum(["artist", "compilation", "album", "genre"]),
+  name: z.string(),
+  altName: z.string().optional(),
+  artist: z.string().optional(),
+  altArtist: z.string().optional(),
+  country: z.string().nullable().optional(),
+  isoCodes: z.array(z.string()).optional(),
+  year: z.number().int().nullable().optional(),
+  genrePath: z.string(),
+  slug: z.string().min(1),
+  url: z.string().startsWith("/"),
+  albumCount: z.number().int().nonnegative().optional(),
+});
+
+export const searchIndexSchema: z.ZodType<SearchIndex> = z.object({
+  schemaVersion,
+  entries: z.array(searchEntry),
+});
+
+// ─── Album art manifest ─────────────────────────────────────────────────
+
+const artManifestEntry: z.ZodType<ArtManifestEntry> = z.object({
+  artistSlug: z.string().min(1),
+  albumSlug: z.string().min(1),
+  source: z.enum(["file", "embedded", "spotify"]),
+  sourceFile: z.string().min(1),
+  sizes: z.array(z.number().int().positive()),
+  formats: z.array(z.enum(["avif", "webp"])).min(1),
+  placeholder: z.string().startsWith("data:image/").optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/)
+    .optional(),
+});
+
+export const artManifestSchema: z.ZodType<ArtManifest> = z.object({
+  schemaVersion,
+  generatedAt: z.string(),
+  musicLibraryRoot: z.string(),
+  totalAlbums: z.number().int().nonnegative(),
+  albumsWithArt: z.number().int().nonnegative(),
+  albumsWithoutArt: z.number().int(),
+  entries: z.record(z.record(artManifestEntry)),
+});
+
+// ─── Collage manifest ───────────────────────────────────────────────────
+
+const collageEntry: z.ZodType<CollageEntry> = z.object({
+  file: z.string().endsWith(".webp"),
+  covers: z.array(z.string().includes("/")).min(1),
+});
+
+export const collageManifestSchema: z.ZodType<CollageManifest> = z.object({
+  schemaVersion,
+  generatedAt: z.string(),
+  artists: z.record(collageEntry),
+  genres: z.record(collageEntry),
+});
+
+// ─── Local track manifest ───────────────────────────────────────────────
+
+const localTrack: z.ZodType<LocalTrack> = z.object({
+  title: z.string(),
+  trackNumber: z.number().int().nonnegative().nullable(),
+  discNumber: z.number().int().nonnegative().nullable(),
+  durationMs: z.number().nonnegative().nullable(),
+  bitrate: z.number().nonnegative().nullable(),
+  codec: z.string().nullable(),
+  fileName: z.string().min(1),
+  size: z.number().int().nonnegative().optional(),
+  mtimeMs: z.number().nonnegative().optional(),
+});
+
+const localTrackEntry: z.ZodType<LocalTrackEntry> = z.object({
+  artistSlug: z.string().min(1),
+  albumSlug: z.string().min(1),
+  tracks: z.array(localTrack).min(1),
+  scannedAt: z.string(),
+});
+
+export const localTrackManifestSchema: z.ZodType<LocalTrackManifest> = z.object({
+  schemaVersion,
+  generatedAt: z.string(),
+  musicLibraryRoot: z.string(),
+  totalAlbums: z.number().int().nonnegative(),
+  albumsWithTracks: z.number().int().nonnegative(),
+  entries: z.record(z.record(localTrackEntry)),
+});
+
+// ─── Changelog ──────────────────────────────────────────────────────────
+
+const timestamp = z.string().datetime();
+
+const libraryChange: z.ZodType<LibraryChange> = z.object({
+  timestamp,
+  kind: z.enum(["added", "removed", "moved", "renamed"]),
+  entity: z.enum(["artist", "compilation", "album"]),
+  name: z.string(),
+  slug: z.string().min(1),
+  genrePath: z.array(z.string().min(1)).min(1),
+  parentName: z.string().optional(),
+  parentSlug: z.string().min(1).optional(),
+  parentEntity: z.enum(["artist", "compilation"]).optional(),
+  year: z.number().int().nullable().optional(),
+  previous: z
+    .object({
+      name: z.string(),
+      slug: z.string().min(1),
+      genrePath: z.array(z.string().min(1)).min(1),
+      parentName: z.string().optional(),
+      parentSlug: z.string().min(1).optional(),
+    })
+    .optional(),
+});
+
+export const changelogSchema: z.ZodType<Changelog> = z.object({
+  schemaVersion,
+  updatedAt: timestamp,
+  changes: z.array(libraryChange),
+});
+
+// ─── Spotify manifests ──────────────────────────────────────────────────
+
+const spotifyArtistEntry: z.ZodType<SpotifyArtistEntry> = z.object({
+  artistSlug: z.string().min(1),
+  spotifyUrl: z.string().url(),
+  spotifyId: z.string().min(1),
+  fetchedAt: z.string(),
+});
+
+export const spotifyArtistManifestSchema: z.ZodType<SpotifyArtistManifest> = z.object({
+  schemaVersion,
+  generatedAt: z.string(),
+  totalQueried: z.number().int().nonnegative(),
+  matched: z.number().int().nonnegative(),
+  unmatched: z.number().int().nonnegative(),
+  entries: z.record(spotifyArtistEntry),
+});
+
+const spotifyTrack: z.ZodType<SpotifyTrack> = z.object({
+  name: z.string(),
+  trackNumber: z.number().int(),
+  discNumber: z.number().int(),
+  durationMs: z.number().nonnegative(),
+  spotifyUrl: z.string(),
+});
+
+const spotifyAlbumEntry: z.ZodType<SpotifyAlbumEntry> = z.object({
+  albumSlug: z.string().min(1),
+  artistSlug: z.string().min(1),
+  spotifyAlbumId: z.string().min(1),
+  spotifyAlbumUrl: z.string().url(),
+  name: z.string(),
+  releaseDate: z.string(),
+  totalTracks: z.number().int().nonnegative(),
+  imageUrl: z.string().nullable(),
+  tracks: z.array(spotifyTrack),
+  fetchedAt: z.string(),
+});
+
+export const spotifyAlbumManifestSchema: z.ZodType<SpotifyAlbumManifest> = z.object({
+  schemaVersion,
+  generatedAt: z.string(),
+  totalArtistsQueried: z.number().int().nonnegative(),
+  totalAlbumsMatched: z.number().int().nonnegative(),
+  totalAlbumsUnmatched: z.number().int().nonnegative(),
+  entries: z.record(z.record(spotifyAlbumEntry)),
+});
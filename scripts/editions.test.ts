@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { groupEditions } from "./editions.js";
+import { type Album, ReleaseType } from "./types.js";
+
+function album(
+  rawFolderName: string,
+  name: string,
+  year: number,
+  extra: Partial<Album> = {},
+): Album {
+  return {
+    name,
+    slug: `${name.toLowerCase().replace(/\W+/g, "-")}-${year}`,
+    year,
+    releaseDate: { year },
+    type: ReleaseType.Album,
+    hasMultipleDiscs: false,
+    discCount: 1,
+    discs: [],
+    extras: [],
+    rawFolderName,
+    folderPath: ["Metal", "Doom", "Candlemass (Swe)", rawFolderName],
+    formats: [{ rawFolderName, markers: [], extensions: [".mp3"], lossless: false }],
+    ...extra,
+  };
+}
+
+describe("groupEditions", () => {
+  it("groups releases of the same name and type under the oldest original", () => {
+    const original = album("[1986] Epicus", "Epicus", 1986);
+    const remaster = album("[2006] Epicus (Remaster)", "Epicus", 2006, {
+      slug: "epicus-2006-remaster",
+      reissue: "Remaster",
+    });
+    const albums = [original, remaster];
+
+    groupEditions(albums);
+
+    assert.equal(remaster.masterSlug, original.slug);
+    assert.equal(remaster.editions, undefined);
+    assert.deepEqual(original.editions, [
+      {
+        slug: original.slug,
+        year: 1986,
+        reissueYear: null,
+        rawFolderName: "[1986] Epicus",
+        lossless: false,
+      },
+      {
+        slug: "epicus-2006-remaster",
+        year: 2006,
+        reissue: "Remaster",
+        reissueYear: 2006,
+        rawFolderName: "[2006] Epicus (Remaster)",
+        lossless: false,
+      },
+    ]);
+  });
+
+  it("reads the reissue year from the folder name over the folder year", () => {
+    const original = album("[1987] Nightfall", "Nightfall", 1987);
+    const reissue = album("[1987] Nightfall (reissue 2005, lossless)", "Nightfall", 1987, {
+      slug: "nightfall-1987-2",
+      reissue: "Reissue",
+      formats: [
+        {
+          rawFolderName: "[1987] Nightfall (reissue 2005, lossless)",
+          markers: ["Lossless"],
+          extensions: [".flac"],
+          lossless: true,
+        },
+      ],
+    });
+
+    groupEditions([original, reissue]);
+
+    assert.equal(original.editions?.[1].reissueYear, 2005);
+    assert.equal(original.editions?.[1].lossless, true);
+  });
+
+  it("takes the first edition as master when every one is a reissue", () => {
+    const first = album("[1998] Tales (Remaster)", "Tales", 1998, { reissue: "Remaster" });
+    const second = album("[2010] Tales (Deluxe)", "Tales", 2010, { reissue: "Deluxe" });
+
+    groupEditions([first, second]);
+
+    assert.equal(second.masterSlug, first.slug);
+    assert.equal(first.editions?.length, 2);
+  });
+
+  it("keeps releases of another type or name apart", () => {
+    const studio = album("[1988] Ancient Dreams", "Ancient Dreams", 1988);
+    const live = album("[1990] Ancient Dreams (Live)", "Ancient Dreams", 1990, {
+      type: ReleaseType.Live,
+    });
+    const other = album("[1989] Tales of Creation", "Tales of Creation", 1989);
+
+    groupEditions([studio, other, live]);
+
+    for (const a of [studio, other, live]) {
+      assert.equal(a.editions, undefined);
+      assert.equal(a.masterSlug, undefined);
+    }
+  });
+});
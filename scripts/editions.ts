@@ -0,0 +1,53 @@
+import type { Album, AlbumEdition } from "./types.js";
+
+/**
+ * Year a reissue came out, e.g. 2006 from "[1994] Title (reissue 2006)".
+ * Falls back to the folder year when that differs from the original's.
+ */
+function findReissueYear(album: Album, master: Album): number | null {
+  if (album === master) return null;
+  const withoutYearPrefix = album.rawFolderName.replace(/^\[\d{4}\]/, "");
+  const match = withoutYearPrefix.match(/\([^)]*?\b((?:19|20)\d{2})\b[^)]*\)/);
+  if (match) return Number.parseInt(match[1], 10);
+  return album.year !== master.year ? album.year : null;
+}
+
+function toEdition(album: Album, master: Album): AlbumEdition {
+  return {
+    slug: album.slug,
+    year: album.year,
+    ...(album.reissue && { reissue: album.reissue }),
+    reissueYear: findReissueYear(album, master),
+    rawFolderName: album.rawFolderName,
+    lossless: album.formats.some((format) => format.lossless),
+  };
+}
+
+/**
+ * Group releases of the same work (same name and release type) into one master
+ * with a list of editions. The master is the oldest edition without a reissue
+ * label; other editions point back to it through `masterSlug`. Albums must be
+ * sorted by year.
+ */
+export function groupEditions(albums: Album[]): void {
+  const groups = new Map<string, Album[]>();
+  for (const album of albums) {
+    const key = `${album.type}|${album.name.toLowerCase()}`;
+    const group = groups.get(key) ?? [];
+    group.push(album);
+    groups.set(key, group);
+  }
+
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const master = group.find((album) => !album.reissue) ?? group[0];
+    const others = group.filter((album) => album !== master);
+
+    master.editions = [master, ...others].map((album) => toEdition(album, master));
+    delete master.masterSlug;
+    for (const album of others) {
+      album.masterSlug = master.slug;
+      delete album.editions;
+    }
+  }
+}
@@ -1,35 +1,132 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { slugify, uniqueSlug } from "../src/lib/slugify.js";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import { slugify, transliterate } from "../src/lib/slugify.js";
+import { COLLAGE_CONFIG } from "./albumArtConfig.js";
+import { appendChangelog, diffLibraries, summarizeChanges } from "./changelog.js";
+import type { CommandOptions, CommandResult } from "./commandOptions.js";
 import {
   ARTIST_TAGS,
   FALSE_POSITIVE_CODES,
+  findUnknownCountryCodes,
   isCountryCode,
-  resolveCountry,
+  isMultiCountryCode,
   resolveIsoCodes,
   resolveMultiCountry,
 } from "./countryMapping.js";
+import { groupEditions } from "./editions.js";
+import { readGeneratedFile, readPreviousFile } from "./generatedData.js";
+import { loadLibraryConfig } from "./libraryConfig.js";
+import { mergeArtists } from "./mergeArtists.js";
+import { loadOverrides, type OverrideSet } from "./overrides.js";
+import {
+  createParseReport,
+  keepReportEntries,
+  printParseReportSummary,
+  recordClassification,
+  recordGenre,
+  recordUnknownCountryCodes,
+  writeParseReport,
+} from "./parseReport.js";
+import { linkParticipants } from "./participants.js";
+import {
+  compareReleaseDates,
+  exactYear,
+  leadingReleaseDate,
+  sameReleaseDate,
+  splitReleaseDate,
+} from "./releaseDates.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
+import { loadSlugRegistry, type SlugRegistry, type SlugReport } from "./slugRegistry.js";
+import { folderKey, forEachArtistAndCompilation } from "./traversal.js";
 import {
   type Album,
+  type AlbumDisc,
+  type AlbumFormat,
+  type AlbumMedia,
   type Artist,
+  type BoxSetRelease,
+  type Classification,
+  type ClassificationRule,
   type Compilation,
+  type FolderMetadata,
+  type FolderNode,
+  type FolderOverride,
+  type FolderStats,
   type Genre,
   type MusicLibrary,
+  type NodeType,
+  type ParseReport,
   ReleaseType,
   type SearchEntry,
+  type SearchIndex,
   type Subgenre,
 } from "./types.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.join(__dirname, "..");
 
-// Folders to skip (matching existing parser behavior)
-const IGNORED_GENRES = new Set(["Downloads", "Various", "Classical", "No Copyright"]);
+// Folder naming conventions (library.config.json)
+const config = loadLibraryConfig();
+
+// Curated corrections from data/overrides.json (loaded in run)
+let overrides: OverrideSet;
+
+// Stable URL slugs from data/slugRegistry.json (loaded in run)
+let slugs: SlugRegistry;
+
+// ─── Folder metadata (from `pnpm scan`) ──────────────────────────────────
+
+let folderStats: Record<string, FolderStats> = {};
 
-// ─── Folder hierarchy type ──────────────────────────────────────────────
-interface FolderNode {
-  [key: string]: FolderNode;
+function loadFolderMetadata(): void {
+  const metadataPath = path.join(ROOT, SCAN_CONFIG.METADATA_PATH);
+  if (!fs.existsSync(metadataPath)) {
+    console.log("No folderMetadata.json found (run 'pnpm scan' to add file statistics)");
+    return;
+  }
+
+  const metadata = readGeneratedFile<FolderMetadata>(metadataPath, "folderMetadata");
+  folderStats = metadata.folders ?? {};
+  console.log(`Loaded file statistics for ${Object.keys(folderStats).length} folders`);
+}
+
+/**
+ * Aggregate scanned file statistics for an album folder and all its subfolders
+ * (disc folders, scans, etc.). Returns undefined when the folder was never scanned.
+ */
+function collectAlbumMedia(node: FolderNode, segments: string[]): AlbumMedia | undefined {
+  let found = false;
+  const media: AlbumMedia = {
+    audioFileCount: 0,
+    totalBytes: 0,
+    extensions: [],
+    newestMtime: null,
+  };
+  const extensions = new Set<string>();
+
+  function visit(children: FolderNode, current: string[]) {
+    const stats = folderStats[folderKey(current)];
+    if (stats) {
+      found = true;
+      media.audioFileCount += stats.audioFileCount;
+      media.totalBytes += stats.totalBytes;
+      for (const ext of stats.extensions) extensions.add(ext);
+      if (stats.newestMtime && (!media.newestMtime || stats.newestMtime > media.newestMtime)) {
+        media.newestMtime = stats.newestMtime;
+      }
+    }
+    for (const [name, sub] of Object.entries(children)) {
+      visit(sub, [...current, name]);
+    }
+  }
+
+  visit(node, segments);
+  if (!found) return undefined;
+
+  media.extensions = [...extensions].sort();
+  return media;
 }
 
 // ─── Artist name parsing ────────────────────────────────────────────────
@@ -66,24 +163,13 @@ function parseArtistName(folderName: string): ParsedArtistName {
   // Now try to extract country code from the end
   let countryCode: string | null = null;
 
-  // Multi-country: (Aut-UK), (Isr&UK)
-  const multiMatch = remaining.match(/\s*\((\w{2,3}[-&]\w{2,3})\)\s*$/);
-  if (multiMatch) {
-    countryCode = multiMatch[1];
-    remaining = remaining.slice(0, multiMatch.index ?? 0).trim();
-    return {
-      name: remaining,
-      countryCode,
-      country: resolveMultiCountry(countryCode),
-      tags,
-    };
-  }
-
-  // Single country code: (XX) or (XXX)
-  const countryMatch = remaining.match(/\s*\((\w{2,3})\)\s*$/);
+  // Country code or name from the end: (Swe), (SE), (Sweden), or several
+  // countries: (Aut-UK), (Isr&UK), (Fin-Swe-Nor)
+  const countryMatch = remaining.match(/\s*\(([^()]+)\)\s*$/);
   if (countryMatch) {
-    const code = countryMatch[1];
-    if (!FALSE_POSITIVE_CODES.has(code) && isCountryCode(code)) {
+    const code = countryMatch[1].trim();
+    // Unknown multi-country codes are still codes: keep them out of the name
+    if (isCountryCode(code) || isMultiCountryCode(code)) {
       countryCode = code;
       remaining = remaining.slice(0, countryMatch.index ?? 0).trim();
     }
@@ -95,46 +181,39 @@ function parseArtistName(folderName: string): ParsedArtistName {
   return {
     name: remaining,
     countryCode,
-    country: resolveCountry(countryCode),
+    country: countryCode ? resolveMultiCountry(countryCode) : null,
     tags,
   };
 }
 
+function applyArtistOverride(
+  parsed: ParsedArtistName,
+  override: FolderOverride | undefined,
+  key: string,
+): ParsedArtistName {
+  if (!override) return parsed;
+
+  const result = { ...parsed };
+  if (override.name) result.name = override.name;
+  if (override.tags) result.tags = override.tags;
+  if (override.countryCode !== undefined) {
+    result.countryCode = override.countryCode;
+    result.country = override.countryCode ? resolveMultiCountry(override.countryCode) : null;
+    if (override.countryCode && !result.country) {
+      console.warn(`  Override for ${key}: unknown country code "${override.countryCode}"`);
+    }
+  }
+  return result;
+}
+
 // ─── Release name formatting (adapted from existing parseMusicFolders.ts) ─
 
 function formatReleaseName(releaseName: string): string {
-  return releaseName
-    .trim()
-    .replace(/\[\d+\]/, "") // Remove year in brackets
-    .replace(/\(Lossless\)/i, "")
-    .replace(/- Lossless/i, "")
-    .replace(/\(later\)/gi, "")
-    .replace(/\(early\)/gi, "")
-    .replace(/\(Demo\)/i, "")
-    .replace(/\(Promo\)/i, "")
-    .replace(/- Promo/i, "")
-    .replace(/\(Remastered\)/i, "")
-    .replace(/\(Reissue\)/i, "")
-    .replace(/\(Deluxe\)/i, "")
-    .replace(/\(Limited Edition\)/i, "")
-    .replace(/\(Bonus Tracks?\)/i, "")
-    .replace(/\(Digipak\)/i, "")
-    .replace(/\(Digipack\)/i, "")
-    .replace(/\(Digibook\)/i, "")
-    .replace(/\(Boxset\)/i, "")
-    .replace(/\(Box Set\)/i, "")
-    .replace(/\(Special Edition\)/i, "")
-    .replace(/\(Anniversary Edition\)/i, "")
-    .replace(/\(\d+th Anniversary[^)]*\)/i, "")
-    .replace(/\(Reissue \d+\)/i, "")
-    .replace(/-\s*\d+\s*kbps/i, "")
-    .replace(/\s+\d+\s*kbps/i, "")
-    .replace(/\s+-\s+\d+\s*kbps/i, "")
-    .replace(/ -\s*(EP|Live|Single|Compilation|Demo|Split|CDS)/i, "")
-    .replace(/\(disc \d+\)/i, "")
-    .replace(/\(CD\d+\)/i, "")
-    .replace(/\s+/g, " ")
-    .trim();
+  let name = releaseName.trim();
+  for (const pattern of config.releaseNameCleanup) {
+    name = name.replace(pattern, "");
+  }
+  return name.replace(/\s+/g, " ").trim();
 }
 
 // ─── Release type detection (adapted from existing parseMusicFolders.ts) ─
@@ -176,75 +255,187 @@ function getReleaseType(releaseName: string): ReleaseType {
 
 // ─── Reissue detection ──────────────────────────────────────────────────
 
-const REISSUE_PATTERNS: { pattern: RegExp; label: string }[] = [
-  { pattern: /\(Remastered\)/i, label: "Remastered" },
-  { pattern: /\(Remaster\)/i, label: "Remastered" },
-  { pattern: /\(Re-Mastered\)/i, label: "Remastered" },
-  { pattern: /\(Reissue[^)]*\)/i, label: "Reissue" },
-  { pattern: /\(Rereleased[^)]*\)/i, label: "Reissue" },
-  { pattern: /\(\d+th Anniversary[^)]*\)/i, label: "Anniversary Edition" },
-  { pattern: /\(Deluxe\)/i, label: "Deluxe Edition" },
-  { pattern: /\(Special Edition\)/i, label: "Special Edition" },
-  { pattern: /\(Limited Edition\)/i, label: "Limited Edition" },
-  { pattern: /\(Bonus Tracks?\)/i, label: "Bonus Tracks" },
-];
-
 function detectReissueTag(rawName: string): string | undefined {
-  for (const { pattern, label } of REISSUE_PATTERNS) {
+  for (const { pattern, label } of config.reissuePatterns) {
     if (pattern.test(rawName)) return label;
   }
   return undefined;
 }
 
+/**
+ * Describe one copy of an album from its folder name markers and file extensions.
+ */
+function detectFormat(rawName: string, media: AlbumMedia | undefined): AlbumFormat {
+  const markers = new Set<string>();
+  let lossless = false;
+
+  for (const marker of config.formatMarkers) {
+    const match = rawName.match(marker.pattern);
+    if (!match) continue;
+    markers.add(match[0].replace(marker.pattern, marker.label));
+    lossless ||= marker.lossless;
+  }
+
+  const extensions = (media?.extensions ?? []).filter((ext) =>
+    SCAN_CONFIG.AUDIO_EXTENSIONS.includes(ext),
+  );
+  lossless ||= extensions.some((ext) => SCAN_CONFIG.LOSSLESS_EXTENSIONS.includes(ext));
+
+  return { rawFolderName: rawName, markers: [...markers], extensions, lossless };
+}
+
+// ─── Album contents (discs, extras, box sets) ───────────────────────────
+
+const DISC_NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4 };
+const ROMAN_DIGITS: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+function parseDiscNumber(token: string): number | null {
+  if (/^\d+$/.test(token)) return Number.parseInt(token, 10);
+  const word = DISC_NUMBER_WORDS[token.toLowerCase()];
+  if (word) return word;
+  const digits = token.toUpperCase().split("");
+  if (!digits.every((d) => d in ROMAN_DIGITS)) return null;
+  return digits.reduce((sum, d, i) => {
+    const value = ROMAN_DIGITS[d];
+    const next = ROMAN_DIGITS[digits[i + 1]] ?? 0;
+    return sum + (value < next ? -value : value);
+  }, 0);
+}
+
+/**
+ * Parse a disc folder name, e.g. "CD2 - Live in Oslo" -> disc 2 titled "Live in Oslo".
+ * Returns null when the folder is not a disc.
+ */
+function parseDiscFolder(name: string): { number: number | null; title: string | null } | null {
+  const match = name.match(config.discFolderPattern);
+  if (!match || match.index === undefined) return null;
+
+  const rest = name.slice(match.index + match[0].length);
+  // The title must be set apart from the number ("CD2 - Title", "[Disc1] Title")
+  const title = rest
+    .match(/^[\])]?(?:\s*[-–:]\s+|\s+)(.+)$/)?.[1]
+    .replace(/^[([](.*)[)\]]$/, "$1")
+    .trim();
+
+  return {
+    number: match[1] ? parseDiscNumber(match[1]) : null,
+    title: title || null,
+  };
+}
+
+function isReleaseFolder(name: string): boolean {
+  return /^[[(]\d{4}[\])]/.test(name);
+}
+
+/**
+ * Sort an album folder's subfolders into discs, extras (scans, artwork) and, in a
+ * box set, whole releases. Other subfolders (e.g. a single wrapper folder) are ignored.
+ */
+function readAlbumContents(
+  children: FolderNode,
+  albumName: string,
+): { discs: AlbumDisc[]; extras: string[]; releases: BoxSetRelease[] } {
+  const isBoxSet = config.boxSetPattern.test(albumName);
+  const discs: AlbumDisc[] = [];
+  const extras: string[] = [];
+  const releases: BoxSetRelease[] = [];
+
+  for (const [name, subChildren] of Object.entries(children)) {
+    const disc = parseDiscFolder(name);
+    if (disc) {
+      discs.push({
+        number: disc.number ?? discs.length + 1,
+        title: disc.title,
+        rawFolderName: name,
+      });
+    } else if (config.extrasFolderPattern.test(name)) {
+      extras.push(name);
+    } else if (isBoxSet || isReleaseFolder(name)) {
+      const yearMatch = name.match(/[[(](\d{4})[\])]/);
+      const contents = readAlbumContents(subChildren, name);
+      releases.push({
+        name: formatReleaseName(name.replace(/^[[(]\d{4}[\])]\s*/, "")),
+        year: yearMatch ? Number.parseInt(yearMatch[1], 10) : null,
+        type: getReleaseType(name),
+        rawFolderName: name,
+        discs: contents.discs,
+        extras: contents.extras,
+      });
+    }
+  }
+
+  discs.sort((a, b) => a.number - b.number);
+  releases.sort((a, b) => (a.year ?? 9999) - (b.year ?? 9999));
+  return { discs, extras, releases };
+}
+
 // ─── Album extraction ───────────────────────────────────────────────────
 
-function extractAlbums(children: FolderNode, artistSlugSet: Set<string>): Album[] {
+function extractAlbums(children: FolderNode, parentPath: string[]): Album[] {
   const raw = Object.entries(children)
-    .map(([name, subChildren]) => {
-      const yearMatch = name.match(/\[(\d{4})\]/);
-      const year = yearMatch ? parseInt(yearMatch[1], 10) : null;
-      const type = getReleaseType(name);
-      const cleanName = formatReleaseName(name);
-      const reissue = detectReissueTag(name);
-
-      const childKeys = Object.keys(subChildren);
-      const discPattern = /^(CD\s?\d|Disc\s?\d|Book\s?\d)/i;
-      const discChildren = childKeys.filter((k) => discPattern.test(k));
-
-      return {
+    .flatMap(([name, subChildren]) => {
+      const override = overrides.get(folderKey([...parentPath, name]));
+      if (override?.type === "ignore") return [];
+
+      const parsed = splitReleaseDate(name);
+      // An override year replaces the whole parsed date
+      const releaseDate =
+        override?.year !== undefined
+          ? override.year === null
+            ? null
+            : { year: override.year }
+          : parsed.date;
+      const type = override?.releaseType ?? getReleaseType(name);
+      const cleanName = override?.name ?? formatReleaseName(parsed.rest);
+      const reissue =
+        override?.reissue !== undefined ? (override.reissue ?? undefined) : detectReissueTag(name);
+
+      const contents = readAlbumContents(subChildren, name);
+
+      const album: Album = {
         name: cleanName,
-        slug: "", // assigned after dedup
-        year,
+        slug: override?.slug ?? "", // assigned after dedup unless overridden
+        year: exactYear(releaseDate),
+        releaseDate,
         type,
         reissue,
-        hasMultipleDiscs: discChildren.length > 1,
-        discCount: Math.max(discChildren.length, 1),
+        hasMultipleDiscs: contents.discs.length > 1,
+        discCount: Math.max(contents.discs.length, 1),
+        discs: contents.discs,
+        extras: contents.extras,
+        ...(contents.releases.length > 0 && { releases: contents.releases }),
         rawFolderName: name,
+        folderPath: [...parentPath, name],
+        formats: [],
       };
+
+      const media = collectAlbumMedia(subChildren, [...parentPath, name]);
+      if (media) album.media = media;
+      album.formats.push(detectFormat(name, media));
+
+      return [album];
     })
     .filter((album) => album.name.length > 0)
-    .sort((a, b) => (a.year ?? 9999) - (b.year ?? 9999));
+    .sort((a, b) => compareReleaseDates(a.releaseDate, b.releaseDate));
 
-  // Deduplicate: same name + same year = format duplicate (mp3 vs lossless), keep one.
+  // Deduplicate: same name + same date + same reissue label = format duplicate (mp3 vs
+  // lossless), keep one album and record the duplicate folder as another of its formats.
   // Same name + different year = reissue/remaster, keep both but mark the later one.
+  // Editions of one work are grouped under a master release later (groupEditions).
   const deduped: typeof raw = [];
-  const seenByName = new Map<string, (typeof raw)[0]>();
 
   for (const album of raw) {
-    const existing = seenByName.get(album.name);
-    if (!existing) {
-      seenByName.set(album.name, album);
-      deduped.push(album);
-      continue;
-    }
-
-    if (existing.year === album.year) {
-      // Same name, same year → format duplicate, skip
+    const sameWork = deduped.filter((a) => a.name === album.name && a.type === album.type);
+    const copy = sameWork.find(
+      (a) => sameReleaseDate(a.releaseDate, album.releaseDate) && a.reissue === album.reissue,
+    );
+    if (copy) {
+      copy.formats.push(...album.formats);
       continue;
     }
 
     // Same name, different year → keep as reissue
-    if (!album.reissue) {
+    if (!album.reissue && sameWork.some((a) => a.year !== album.year)) {
       album.reissue = "Reissue";
     }
     deduped.push(album);
@@ -252,7 +443,12 @@ function extractAlbums(children: FolderNode, artistSlugSet: Set<string>): Album[
 
   // Assign slugs after dedup
   for (const album of deduped) {
-    album.slug = uniqueSlug(album.name + (album.year ? `-${album.year}` : ""), artistSlugSet);
+    album.slug = slugs.assign(
+      "albums",
+      folderKey([...parentPath, album.rawFolderName]),
+      album.name + (album.year ? `-${album.year}` : ""),
+      { forced: album.slug || undefined },
+    );
   }
 
   return deduped;
@@ -260,76 +456,101 @@ function extractAlbums(children: FolderNode, artistSlugSet: Set<string>): Album[
 
 // ─── Node classification ────────────────────────────────────────────────
 
-type NodeType = "subgenre" | "artist" | "compilation" | "album" | "ignore";
-
+/**
+ * `artistDepth` is set when a sibling folder is an artist by the library's own
+ * codes. Only then, or when the folder has album-like children, do standard
+ * codes and country names mark an artist: "Castlevania - Rondo of Blood OST
+ * (Japan)" is not one.
+ */
 function classifyNode(
   name: string,
   children: FolderNode,
   parentType: "root" | "genre" | "subgenre" | "artist" | "compilation",
-): NodeType {
+  artistDepth: boolean,
+): Classification {
+  const childKeys = Object.keys(children);
+  const albumLikeChildren = childKeys.filter((k) => leadingReleaseDate(k)).length;
+  const standardCodes = artistDepth || albumLikeChildren > 0;
+  const decide = (type: NodeType, rule: ClassificationRule): Classification => ({
+    type,
+    rule,
+    albumLikeChildren,
+    totalChildren: childKeys.length,
+  });
+
   // 1. If parent is artist or compilation, children are albums
-  if (parentType === "artist" || parentType === "compilation") {
-    return "album";
-  }
+  if (parentType === "artist") return decide("album", "parent-is-artist");
+  if (parentType === "compilation") return decide("album", "parent-is-compilation");
 
   // 2. VA compilation check
   if (name.startsWith("- VA -") || name.startsWith("- Various Artists")) {
-    return "compilation";
+    return decide("compilation", "va-prefix");
   }
 
   // 3. Skip Windows shortcuts and non-folder artifacts
   if (name.endsWith(".lnk") || name.match(/\.(mp3|aac|wav|flac|ogg|m4a)$/i)) {
-    return "ignore";
+    return decide("ignore", "file-artifact");
   }
 
-  // 4. Country code match at end of name
-  const countryEndMatch = name.match(/\((\w{2,3})\)\s*$/);
+  // 4. Country code or name at end of name
+  const countryEndMatch = name.match(/\(([^()]+)\)\s*$/);
   if (countryEndMatch) {
-    const code = countryEndMatch[1];
-    if (!FALSE_POSITIVE_CODES.has(code) && isCountryCode(code)) {
-      return "artist";
+    const code = countryEndMatch[1].trim();
+    if (isCountryCode(code, standardCodes)) {
+      return decide("artist", isMultiCountryCode(code) ? "multi-country" : "country-code");
     }
   }
 
   // 5. Multi-paren: "Name (Code) (tag)" pattern
-  const multiParenMatch = name.match(/\((\w{2,3})\)\s*\([^)]+\)\s*$/);
+  const multiParenMatch = name.match(/\(([^()]+)\)\s*\([^)]+\)\s*$/);
   if (multiParenMatch) {
-    const code = multiParenMatch[1];
-    if (!FALSE_POSITIVE_CODES.has(code) && isCountryCode(code)) {
-      return "artist";
+    const code = multiParenMatch[1].trim();
+    if (isCountryCode(code, standardCodes)) {
+      return decide("artist", "country-code-with-tag");
     }
   }
 
-  // 6. Multi-country: (Aut-UK), (Isr&UK)
-  if (name.match(/\(\w{2,3}[-&]\w{2,3}\)\s*$/)) {
-    return "artist";
+  // 6. Multi-country, known or not: (Aut-UK), (Isr&UK), (Fin-Swe-Nor)
+  if (countryEndMatch && isMultiCountryCode(countryEndMatch[1].trim())) {
+    return decide("artist", "multi-country");
   }
 
   // 7. Descriptive paren then country: "Name (desc) (Code)"
   const descCountryMatch = name.match(/\([^)]+\)\s*\((\w{2,3})\)\s*$/);
   if (descCountryMatch) {
     const code = descCountryMatch[1];
-    if (!FALSE_POSITIVE_CODES.has(code) && isCountryCode(code)) {
-      return "artist";
+    if (!FALSE_POSITIVE_CODES.has(code) && isCountryCode(code, standardCodes)) {
+      return decide("artist", "descriptor-then-country");
     }
   }
 
   // 8. Children heuristic: if children look like albums (have [YYYY] prefix),
   //    treat this as an artist without a country code
-  const childKeys = Object.keys(children);
-  if (childKeys.length > 0) {
-    const albumLikeChildren = childKeys.filter((k) => /^\[\d{4}\]/.test(k));
-    if (albumLikeChildren.length > 0 && albumLikeChildren.length >= childKeys.length * 0.3) {
-      return "artist";
-    }
+  if (albumLikeChildren > 0 && albumLikeChildren >= childKeys.length * 0.3) {
+    return decide("artist", "album-like-children");
   }
 
   // 9. Default: subgenre if has children, ignore if empty
   if (childKeys.length > 0) {
-    return "subgenre";
+    return decide("subgenre", "has-children");
   }
 
-  return "ignore";
+  return decide("ignore", "empty");
+}
+
+/**
+ * Classify a folder, letting a curated override force the node type.
+ */
+function classifyFolder(
+  name: string,
+  children: FolderNode,
+  parentType: "root" | "genre" | "subgenre" | "artist" | "compilation",
+  override: FolderOverride | undefined,
+  artistDepth = false,
+): Classification {
+  const classification = classifyNode(name, children, parentType, artistDepth);
+  if (!override?.type) return classification;
+  return { ...classification, type: override.type, rule: "override" };
 }
 
 // ─── Recursive hierarchy walker ─────────────────────────────────────────
@@ -340,8 +561,22 @@ interface WalkResult {
   subgenres: Subgenre[];
 }
 
-const globalArtistSlugs = new Set<string>();
-const globalAlbumSlugs = new Set<string>();
+const parseReport = createParseReport();
+
+// Identity used to merge artist folders found under several genres
+const artistIds = new Map<Artist, string>();
+
+function recordAlbums(
+  children: FolderNode,
+  parentPath: string[],
+  parentType: "artist" | "compilation",
+): void {
+  for (const [name, albumChildren] of Object.entries(children)) {
+    const key = folderKey([...parentPath, name]);
+    const classification = classifyFolder(name, albumChildren, parentType, overrides.get(key));
+    recordClassification(parseReport, key, classification);
+  }
+}
 
 function walkHierarchy(
   node: FolderNode,
@@ -352,49 +587,83 @@ function walkHierarchy(
   const compilations: Compilation[] = [];
   const subgenres: Subgenre[] = [];
 
+  const artistDepth = Object.entries(node).some(
+    ([name, children]) => classifyNode(name, children, parentType, false).type === "artist",
+  );
+
   for (const [name, children] of Object.entries(node)) {
-    const nodeType = classifyNode(name, children, parentType);
+    const nodePath = [...genrePath, name];
+    const key = folderKey(nodePath);
+    const override = overrides.get(key);
+    const classification = classifyFolder(name, children, parentType, override, artistDepth);
+
+    // A code the parser does not know stays part of the name; list it for review
+    const isNamedFolder = classification.type === "artist" || classification.type === "subgenre";
+    if (isNamedFolder && override?.countryCode === undefined) {
+      recordUnknownCountryCodes(parseReport, key, findUnknownCountryCodes(name));
+    }
 
-    switch (nodeType) {
+    switch (classification.type) {
       case "artist": {
-        const parsed = parseArtistName(name);
-        const albums = extractAlbums(children, globalAlbumSlugs);
-        artists.push({
+        const parsed = applyArtistOverride(parseArtistName(name), override, key);
+        recordClassification(parseReport, key, classification, parsed.countryCode);
+        recordAlbums(children, nodePath, "artist");
+        const albums = extractAlbums(children, nodePath);
+        const formerSlugs = slugs.formerSlugs(key);
+        const artist: Artist = {
           name: parsed.name,
-          slug: uniqueSlug(parsed.name, globalArtistSlugs, parsed.countryCode ?? undefined),
+          slug: slugs.assign("artists", key, parsed.name, {
+            suffix: parsed.countryCode ?? undefined,
+            forced: override?.slug,
+          }),
           countryCode: parsed.countryCode,
           country: parsed.country,
           isoCodes: resolveIsoCodes(parsed.countryCode),
           tags: parsed.tags,
           genrePath: [...genrePath],
+          genrePaths: [[...genrePath]],
           albums,
           rawFolderName: name,
-        });
+          ...(formerSlugs.length > 0 && { slugAliases: formerSlugs }),
+        };
+        artistIds.set(
+          artist,
+          override?.artistId ?? `${slugify(parsed.name)}|${parsed.countryCode ?? ""}`,
+        );
+        artists.push(artist);
         break;
       }
 
       case "compilation": {
-        const cleanName = name
-          .replace(/^- VA -\s*/, "")
-          .replace(/^- Various Artists -?\s*/, "")
-          .trim();
-        const albums = extractAlbums(children, globalAlbumSlugs);
+        recordClassification(parseReport, key, classification);
+        recordAlbums(children, nodePath, "compilation");
+        const cleanName =
+          override?.name ??
+          name
+            .replace(/^- VA -\s*/, "")
+            .replace(/^- Various Artists -?\s*/, "")
+            .trim();
+        const albums = extractAlbums(children, nodePath);
+        const formerSlugs = slugs.formerSlugs(key);
         compilations.push({
           name: cleanName || name,
-          slug: uniqueSlug(cleanName || name, globalArtistSlugs),
+          slug: slugs.assign("artists", key, cleanName || name, { forced: override?.slug }),
           genrePath: [...genrePath],
           albums,
           rawFolderName: name,
+          ...(formerSlugs.length > 0 && { slugAliases: formerSlugs }),
         });
         break;
       }
 
       case "subgenre": {
-        const result = walkHierarchy(children, [...genrePath, name], "subgenre");
+        recordClassification(parseReport, key, classification);
+        const result = walkHierarchy(children, nodePath, "subgenre");
         subgenres.push({
-          name,
+          // Display name only: fullPath keeps raw folder names for filesystem lookups
+          name: override?.name ?? name,
           slug: slugify(name),
-          fullPath: [...genrePath, name],
+          fullPath: nodePath,
           subgenres: result.subgenres,
           artists: result.artists,
           compilations: result.compilations,
@@ -403,6 +672,7 @@ function walkHierarchy(
       }
 
       case "ignore":
+        recordClassification(parseReport, key, classification);
         break;
     }
   }
@@ -410,6 +680,93 @@ function walkHierarchy(
   return { artists, compilations, subgenres };
 }
 
+// ─── Genres ─────────────────────────────────────────────────────────────
+
+/** Top-level genre of a folder key, e.g. "Metal" for "Metal/Doom/Candlemass (Swe)" */
+function genreOf(key: string): string {
+  return key.split("/")[0];
+}
+
+/** Parse a top-level genre folder; null for an ignored genre */
+function parseGenre(genreName: string, genreChildren: FolderNode): Genre | null {
+  if (config.ignoredGenres.has(genreName)) {
+    console.log(`  Skipping: ${genreName}`);
+    recordClassification(parseReport, genreName, {
+      type: "ignore",
+      rule: "ignored-genre",
+      albumLikeChildren: 0,
+      totalChildren: Object.keys(genreChildren).length,
+    });
+    return null;
+  }
+
+  console.log(`  Parsing: ${genreName}`);
+  recordGenre(parseReport, genreName);
+  const result = walkHierarchy(genreChildren, [genreName], "genre");
+
+  return {
+    name: genreName,
+    slug: slugify(genreName),
+    subgenres: result.subgenres,
+    artists: result.artists,
+    compilations: result.compilations,
+  };
+}
+
+/**
+ * Genres of the previous musicData.json by name, for a partial parse. An
+ * artist listed under several genres is one object again, as after merging.
+ */
+function loadPreviousGenres(): Map<string, Genre> {
+  const previous = readPreviousFile<MusicLibrary>(
+    path.join(ROOT, "data", "generated", "musicData.json"),
+    "musicData",
+  );
+  if (!previous) {
+    console.log("No previous musicData.json, parsing every genre");
+    return new Map();
+  }
+
+  const artists = new Map<string, Artist>();
+  function share(node: Genre | Subgenre) {
+    node.artists = node.artists.map((artist) => {
+      if (!artists.has(artist.slug)) artists.set(artist.slug, artist);
+      return artists.get(artist.slug) as Artist;
+    });
+    node.subgenres.forEach(share);
+  }
+  previous.genres.forEach(share);
+  return new Map(previous.genres.map((genre) => [genre.name, genre]));
+}
+
+/**
+ * Whether a kept genre has an artist merged with a parsed genre, or one that
+ * a parsed folder now merges with, so it has to be parsed as well.
+ */
+function isLinkedToParsed(genre: Genre, parsed: Map<string, Genre | null>): boolean {
+  const parsedIds = new Set(artistIds.values());
+  function visit(node: Genre | Subgenre): boolean {
+    return (
+      node.artists.some((artist) => {
+        if (artist.genrePaths.some((genrePath) => parsed.has(genrePath[0]))) return true;
+        const key = folderKey([...artist.genrePath, artist.rawFolderName]);
+        const id =
+          overrides.get(key)?.artistId ?? `${slugify(artist.name)}|${artist.countryCode ?? ""}`;
+        return parsedIds.has(id);
+      }) || node.subgenres.some(visit)
+    );
+  }
+  return visit(genre);
+}
+
+/** Keep the previous parse report's entries for the genres a partial parse kept */
+function keepPreviousReport(report: ParseReport, keptGenres: Set<string>): void {
+  const reportPath = path.join(ROOT, "data", "generated", "parseReport.json");
+  const previous = readPreviousFile<ParseReport>(reportPath, "parseReport");
+  if (!previous) return;
+  keepReportEntries(report, previous, (folderPath) => keptGenres.has(genreOf(folderPath)));
+}
+
 // ─── Stats collection ───────────────────────────────────────────────────
 
 function countStats(genres: Genre[]) {
@@ -418,18 +775,27 @@ function countStats(genres: Genre[]) {
   let totalCompilations = 0;
   let totalSubgenres = 0;
 
+  // Merged artists are listed under each of their genres but counted once
+  const counted = new Set<string>();
+  function countArtists(artists: Artist[]) {
+    for (const artist of artists) {
+      if (counted.has(artist.slug)) continue;
+      counted.add(artist.slug);
+      totalArtists++;
+      totalAlbums += artist.albums.length;
+    }
+  }
+
   function countSubgenre(sg: Subgenre) {
     totalSubgenres++;
-    totalArtists += sg.artists.length;
-    totalAlbums += sg.artists.reduce((sum, a) => sum + a.albums.length, 0);
+    countArtists(sg.artists);
     totalCompilations += sg.compilations.length;
     totalAlbums += sg.compilations.reduce((sum, c) => sum + c.albums.length, 0);
     sg.subgenres.forEach(countSubgenre);
   }
 
   for (const genre of genres) {
-    totalArtists += genre.artists.length;
-    totalAlbums += genre.artists.reduce((sum, a) => sum + a.albums.length, 0);
+    countArtists(genre.artists);
     totalCompilations += genre.compilations.length;
     totalAlbums += genre.compilations.reduce((sum, c) => sum + c.albums.length, 0);
     genre.subgenres.forEach(countSubgenre);
@@ -447,16 +813,27 @@ function countStats(genres: Genre[]) {
 
 // ─── Search index generation ────────────────────────────────────────────
 
+/** Transliterated form of a name, so searching either form finds it */
+function altNameOf(name: string): string | undefined {
+  const alt = transliterate(name);
+  return alt !== name ? alt : undefined;
+}
+
 function buildSearchIndex(genres: Genre[]): SearchEntry[] {
   const entries: SearchEntry[] = [];
+  const indexed = new Set<string>();
 
   function indexArtist(artist: Artist) {
+    if (indexed.has(artist.slug)) return;
+    indexed.add(artist.slug);
+
     entries.push({
       type: "artist",
       name: artist.name,
+      altName: altNameOf(artist.name),
       country: artist.country,
       isoCodes: artist.isoCodes,
-      genrePath: artist.genrePath.join(" > "),
+      genrePath: artist.genrePaths.map((p) => p.join(" > ")).join(", "),
       slug: artist.slug,
       url: `/artist/${artist.slug}`,
       albumCount: artist.albums.length,
@@ -466,15 +843,44 @@ function buildSearchIndex(genres: Genre[]): SearchEntry[] {
       entries.push({
         type: "album",
         name: album.name,
+        altName: altNameOf(album.name),
         artist: artist.name,
+        altArtist: altNameOf(artist.name),
         year: album.year,
-        genrePath: artist.genrePath.join(" > "),
+        // Album folder minus artist and album folder names
+        genrePath: album.folderPath.slice(0, -2).join(" > "),
         slug: album.slug,
         url: `/artist/${artist.slug}/${album.slug}`,
       });
     }
   }
 
+  function indexCompilation(comp: Compilation) {
+    entries.push({
+      type: "compilation",
+      name: comp.name,
+      altName: altNameOf(comp.name),
+      genrePath: comp.genrePath.join(" > "),
+      slug: comp.slug,
+      url: `/compilation/${comp.slug}`,
+      albumCount: comp.albums.length,
+    });
+
+    for (const album of comp.albums) {
+      entries.push({
+        type: "album",
+        name: album.name,
+        altName: altNameOf(album.name),
+        artist: comp.name,
+        altArtist: altNameOf(comp.name),
+        year: album.year,
+        genrePath: comp.genrePath.join(" > "),
+        slug: album.slug,
+        url: `/compilation/${comp.slug}/${album.slug}`,
+      });
+    }
+  }
+
   function indexSubgenre(sg: Subgenre) {
     entries.push({
       type: "genre",
@@ -484,6 +890,7 @@ function buildSearchIndex(genres: Genre[]): SearchEntry[] {
       url: `/genre/${sg.fullPath.map((p) => slugify(p)).join("/")}`,
     });
     sg.artists.forEach(indexArtist);
+    sg.compilations.forEach(indexCompilation);
     sg.subgenres.forEach(indexSubgenre);
   }
 
@@ -496,6 +903,7 @@ function buildSearchIndex(genres: Genre[]): SearchEntry[] {
       url: `/genre/${genre.slug}`,
     });
     genre.artists.forEach(indexArtist);
+    genre.compilations.forEach(indexCompilation);
     genre.subgenres.forEach(indexSubgenre);
   }
 
@@ -504,56 +912,42 @@ function buildSearchIndex(genres: Genre[]): SearchEntry[] {
 
 // ─── Main ───────────────────────────────────────────────────────────────
 
-function main() {
-  console.log("Loading folder hierarchy...");
-  const hierarchyPath = path.join(ROOT, "data", "folderHierarchy.json");
-  const rawData = JSON.parse(fs.readFileSync(hierarchyPath, "utf-8")) as FolderNode;
-
-  // The root key is "MP3"
-  const mp3Root = rawData.MP3;
-  if (!mp3Root) {
-    console.error('Expected root key "MP3" in folderHierarchy.json');
-    process.exit(1);
-  }
-
-  console.log("Parsing genres...");
-  const genres: Genre[] = [];
-
-  for (const [genreName, genreChildren] of Object.entries(mp3Root)) {
-    if (IGNORED_GENRES.has(genreName)) {
-      console.log(`  Skipping: ${genreName}`);
-      continue;
-    }
-
-    console.log(`  Parsing: ${genreName}`);
-    const result = walkHierarchy(genreChildren as FolderNode, [genreName], "genre");
-
-    genres.push({
-      name: genreName,
-      slug: slugify(genreName),
-      subgenres: result.subgenres,
-      artists: result.artists,
-      compilations: result.compilations,
-    });
-  }
-
-  // Sort genres alphabetically
-  genres.sort((a, b) => a.name.localeCompare(b.name));
-
-  const stats = countStats(genres);
-  const library: MusicLibrary = { genres, stats };
+function seedManifest(manifestPath: string, emptyManifest: object, command: string): void {
+  if (fs.existsSync(manifestPath)) return;
+  fs.writeFileSync(manifestPath, JSON.stringify(emptyManifest));
+  console.log(`Created empty ${path.basename(manifestPath)} (run '${command}' to populate)`);
+}
 
+/**
+ * Write musicData.json, the changelog, search indexes and reports, and seed
+ * empty manifests for the later stages.
+ */
+function writeOutputs(
+  library: MusicLibrary,
+  searchIndex: SearchIndex,
+  slugReport: SlugReport,
+): void {
   // Write musicData.json
   const outputDir = path.join(ROOT, "data", "generated");
   fs.mkdirSync(outputDir, { recursive: true });
 
   const musicDataPath = path.join(outputDir, "musicData.json");
+  const previousLibrary = readPreviousFile<MusicLibrary>(musicDataPath, "musicData");
   fs.writeFileSync(musicDataPath, JSON.stringify(library, null, 2));
   console.log(`\nWrote ${musicDataPath}`);
 
+  // Record what changed since the previous generation
+  const changelogPath = path.join(outputDir, "changelog.json");
+  const { generatedAt } = library.stats;
+  const changes = previousLibrary ? diffLibraries(previousLibrary, library, generatedAt) : [];
+  appendChangelog(changelogPath, changes, generatedAt);
+  if (previousLibrary) {
+    console.log(`Changelog: ${summarizeChanges(changes)} (${changelogPath})`);
+  } else {
+    console.log("No previous musicData.json, changelog starts with the next run");
+  }
+
   // Write search index (to data/generated and public/ for client-side access)
-  console.log("Building search index...");
-  const searchIndex = buildSearchIndex(genres);
   const searchIndexJson = JSON.stringify(searchIndex);
 
   const searchIndexPath = path.join(outputDir, "searchIndex.json");
@@ -565,30 +959,184 @@ function main() {
   fs.writeFileSync(path.join(publicDir, "searchIndex.json"), searchIndexJson);
   console.log(`Wrote public/searchIndex.json`);
 
-  // Seed empty album art manifest if it doesn't exist (so Astro builds succeed before art processing)
-  const manifestPath = path.join(outputDir, "albumArtManifest.json");
-  if (!fs.existsSync(manifestPath)) {
-    fs.writeFileSync(
-      manifestPath,
-      JSON.stringify({
-        generatedAt: "",
-        musicLibraryRoot: "",
-        totalAlbums: 0,
-        albumsWithArt: 0,
-        albumsWithoutArt: 0,
-        entries: {},
-      }),
+  // Seed empty manifests if they don't exist (so Astro builds succeed before art/tag processing)
+  seedManifest(
+    path.join(outputDir, "albumArtManifest.json"),
+    {
+      schemaVersion: SCHEMA_VERSIONS.albumArtManifest,
+      generatedAt: "",
+      musicLibraryRoot: "",
+      totalAlbums: 0,
+      albumsWithArt: 0,
+      albumsWithoutArt: 0,
+      entries: {},
+    },
+    "pnpm art",
+  );
+  seedManifest(
+    path.join(ROOT, SCAN_CONFIG.TRACK_MANIFEST_PATH),
+    {
+      schemaVersion: SCHEMA_VERSIONS.localTrackManifest,
+      generatedAt: "",
+      musicLibraryRoot: "",
+      totalAlbums: 0,
+      albumsWithTracks: 0,
+      entries: {},
+    },
+    "pnpm tracks",
+  );
+  seedManifest(
+    path.join(ROOT, COLLAGE_CONFIG.MANIFEST_PATH),
+    {
+      schemaVersion: SCHEMA_VERSIONS.collageManifest,
+      generatedAt: "",
+      artists: {},
+      genres: {},
+    },
+    "pnpm collages",
+  );
+
+  // Write classification report
+  const parseReportPath = path.join(outputDir, "parseReport.json");
+  writeParseReport(parseReport, parseReportPath);
+  console.log(`Wrote ${parseReportPath}`);
+
+  const slugReportPath = path.join(outputDir, "slugReport.json");
+  fs.writeFileSync(slugReportPath, JSON.stringify(slugReport, null, 2));
+  console.log(`Wrote ${slugReportPath}`);
+}
+
+/**
+ * `mlb parse`: build musicData.json, the search index and reports from the
+ * scanned folder hierarchy. With --genre only the top-level genre it names is
+ * parsed again (plus genres sharing a merged artist with it); the others are
+ * kept from the previous musicData.json. With --dry-run nothing is written,
+ * including the slug registry.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
+  console.log("Loading folder hierarchy...");
+  const hierarchyPath = path.join(ROOT, SCAN_CONFIG.HIERARCHY_PATH);
+  const rawData = JSON.parse(fs.readFileSync(hierarchyPath, "utf-8")) as FolderNode;
+  loadFolderMetadata();
+
+  overrides = loadOverrides(path.join(ROOT, "data", "overrides.json"));
+  if (overrides.size > 0) console.log(`Loaded ${overrides.size} folder overrides`);
+
+  const slugRegistryPath = path.join(ROOT, "data", "slugRegistry.json");
+  slugs = loadSlugRegistry(slugRegistryPath);
+  console.log(`Loaded ${slugs.size} registered slugs`);
+
+  // The root key is the library root folder name (e.g. "MP3")
+  const libraryRoot = rawData[config.rootKey];
+  if (!libraryRoot) {
+    console.error(
+      `Expected root key "${config.rootKey}" in folderHierarchy.json, found: ${Object.keys(rawData).join(", ")}`,
+    );
+    console.error(`Set "rootKey" in ${config.configPath}`);
+    return { ok: false, error: `Root key "${config.rootKey}" not found` };
+  }
+
+  // With --genre, genres it does not name are kept from the previous run
+  const kept = options.genre ? loadPreviousGenres() : new Map<string, Genre>();
+  const genreNames = Object.keys(libraryRoot);
+  const [genreSlug] = (options.genre ?? "")
+    .split(/\s*[/>]\s*/)
+    .filter(Boolean)
+    .map(slugify);
+  if (options.genre && !genreNames.some((name) => slugify(name) === genreSlug)) {
+    console.warn(`Nothing matches --genre ${options.genre}`);
+  }
+
+  console.log("Parsing genres...");
+  const parsed = new Map<string, Genre | null>();
+  let pending = genreNames.filter((name) => slugify(name) === genreSlug || !kept.has(name));
+  while (pending.length > 0) {
+    for (const name of pending) {
+      parsed.set(name, parseGenre(name, libraryRoot[name] as FolderNode));
+      kept.delete(name);
+    }
+    // Artists merge across genres, so their other genres are parsed too
+    pending = [...kept.values()]
+      .filter((genre) => isLinkedToParsed(genre, parsed))
+      .map((genre) => genre.name);
+  }
+  if (kept.size > 0) console.log(`  Kept ${kept.size} genres from the previous run`);
+
+  // In folder order, which decides the order of merged artists' tags and albums
+  const parsedGenres = genreNames
+    .map((name) => parsed.get(name))
+    .filter((genre): genre is Genre => Boolean(genre));
+  const merged = mergeArtists(parsedGenres, (artist) => artistIds.get(artist) ?? artist.slug);
+  if (merged.length > 0) {
+    console.log(`\nMerged ${merged.length} artists found in several folders:`);
+    for (const artist of merged.slice(0, 10)) {
+      console.log(`  ${artist.name}: ${artist.genrePaths.map((p) => p.join(" > ")).join(", ")}`);
+    }
+    if (merged.length > 10) console.log(`  ...and ${merged.length - 10} more`);
+  }
+
+  const unusedOverrides = overrides.unused().filter((key) => !kept.has(genreOf(key)));
+  if (unusedOverrides.length > 0) {
+    console.warn(`\nWarning: ${unusedOverrides.length} overrides no longer match any folder:`);
+    for (const key of unusedOverrides) console.warn(`  ${key}`);
+  }
+
+  // Persist slugs so the next run keeps every URL that exists now
+  if (!options.dryRun) slugs.save();
+  const slugReport = slugs.report();
+  slugReport.missing = slugReport.missing.filter(({ key }) => !kept.has(genreOf(key)));
+  console.log(
+    `\nSlugs: ${slugReport.added.length} new, ${slugReport.changed.length} changed, ${slugReport.missing.length} missing folders`,
+  );
+  for (const change of slugReport.changed) {
+    console.warn(
+      `  ${change.kind} ${change.key}: ${change.from} -> ${change.to} (${change.reason})`,
     );
-    console.log("Created empty albumArtManifest.json (run 'pnpm art' to populate)");
+  }
+
+  // Sort genres alphabetically
+  const genres = genreNames
+    .map((name) => parsed.get(name) ?? kept.get(name))
+    .filter((genre): genre is Genre => Boolean(genre));
+  genres.sort((a, b) => a.name.localeCompare(b.name));
+
+  const stats = countStats(genres);
+  const library: MusicLibrary = { schemaVersion: SCHEMA_VERSIONS.musicData, genres, stats };
+
+  // Group reissues under one master release per work (after merging, so an
+  // artist's folders are considered together)
+  forEachArtistAndCompilation(
+    library,
+    (artist) => groupEditions(artist.albums),
+    (comp) => groupEditions(comp.albums),
+  );
+
+  const linked = linkParticipants(library);
+  console.log(`Linked ${linked} split and collaboration releases to other artists`);
+
+  console.log("Building search index...");
+  const searchIndex: SearchIndex = {
+    schemaVersion: SCHEMA_VERSIONS.searchIndex,
+    entries: buildSearchIndex(genres),
+  };
+
+  if (kept.size > 0) keepPreviousReport(parseReport, new Set(kept.keys()));
+
+  if (options.dryRun) {
+    console.log("\nDry run: no files written");
+  } else {
+    writeOutputs(library, searchIndex, slugReport);
   }
 
   // Print stats
+  printParseReportSummary(parseReport);
+
   console.log("\n--- Library Stats ---");
   console.log(`Genres:       ${stats.totalGenres}`);
   console.log(`Subgenres:    ${stats.totalSubgenres}`);
   console.log(`Artists:      ${stats.totalArtists}`);
   console.log(`Albums:       ${stats.totalAlbums}`);
   console.log(`Compilations: ${stats.totalCompilations}`);
-}
 
-main();
+  return { ok: true, ...stats };
+}
@@ -0,0 +1,53 @@
+import fs from "node:fs";
+import { type DataFile, migrateData, SchemaVersionError } from "../src/lib/dataMigrations.js";
+import { CommandError } from "./commandOptions.js";
+
+/**
+ * A generated file that could not be read, parsed or upgraded. `newer` when it
+ * was written by a newer version of the scripts.
+ */
+export class GeneratedFileError extends CommandError {
+  readonly newer: boolean;
+
+  constructor(message: string, newer = false) {
+    super(message);
+    this.name = "GeneratedFileError";
+    this.newer = newer;
+  }
+}
+
+/**
+ * Read a generated JSON file and upgrade it to the current schema version.
+ * Throws a GeneratedFileError when the file cannot be loaded.
+ */
+export function readGeneratedFile<T>(filePath: string, file: DataFile): T {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new GeneratedFileError(`Could not parse ${filePath}: ${(err as Error).message}`);
+  }
+  try {
+    return migrateData<T>(file, raw);
+  } catch (err) {
+    if (!(err instanceof SchemaVersionError)) throw err;
+    throw new GeneratedFileError(`Could not load ${filePath}: ${err.message}`, err.newer);
+  }
+}
+
+/**
+ * Read the output of a previous run, which the command is about to replace.
+ * Returns null when the file is missing, malformed or too old to upgrade, so
+ * the command starts fresh. A file from a newer version of the scripts still
+ * throws, so it is never overwritten by a run that does not understand it.
+ */
+export function readPreviousFile<T>(filePath: string, file: DataFile): T | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return readGeneratedFile<T>(filePath, file);
+  } catch (err) {
+    if (!(err instanceof GeneratedFileError) || err.newer) throw err;
+    console.warn(`${err.message}\nStarting fresh.`);
+    return null;
+  }
+}
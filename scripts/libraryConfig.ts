@@ -0,0 +1,273 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { CommandError } from "./commandOptions.js";
+import { loadEnvVar } from "./spotify/spotifyAuth.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+const DEFAULT_CONFIG_PATH = path.join(ROOT, "library.config.json");
+
+// ─── Types ──────────────────────────────────────────────────────────────
+
+type PatternSpec = string | { pattern: string; flags?: string };
+
+/** Shape of library.config.json (see library.config.schema.json) */
+interface LibraryConfigFile {
+  rootKey: string;
+  ignoredGenres: string[];
+  discFolderPattern: string;
+  extrasFolderPattern: string;
+  boxSetPattern: string;
+  releaseNameCleanup: PatternSpec[];
+  reissuePatterns: { pattern: string; label: string }[];
+  formatMarkers: { pattern: string; label: string; lossless?: boolean }[];
+  artistTags: string[];
+  falsePositiveCodes: string[];
+  countries: Record<string, { name: string; iso: string }>;
+}
+
+export interface CountryConfig {
+  name: string;
+  /** ISO 3166-1 alpha-2 code (lowercase) */
+  iso: string;
+}
+
+/** Validated configuration with compiled regular expressions */
+export interface LibraryConfig {
+  configPath: string;
+  rootKey: string;
+  ignoredGenres: Set<string>;
+  /** Group 1 captures the disc number */
+  discFolderPattern: RegExp;
+  extrasFolderPattern: RegExp;
+  boxSetPattern: RegExp;
+  releaseNameCleanup: RegExp[];
+  reissuePatterns: { pattern: RegExp; label: string }[];
+  /** `label` may reference capture groups ($1) of `pattern` */
+  formatMarkers: { pattern: RegExp; label: string; lossless: boolean }[];
+  artistTags: Set<string>;
+  falsePositiveCodes: Set<string>;
+  countries: Record<string, CountryConfig>;
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────
+
+const KNOWN_KEYS = new Set<string>([
+  "$schema",
+  "rootKey",
+  "ignoredGenres",
+  "discFolderPattern",
+  "extrasFolderPattern",
+  "boxSetPattern",
+  "releaseNameCleanup",
+  "reissuePatterns",
+  "formatMarkers",
+  "artistTags",
+  "falsePositiveCodes",
+  "countries",
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Compile a pattern, recording a readable error (with its location) if it is invalid.
+ */
+function compilePattern(
+  where: string,
+  source: unknown,
+  flags: string,
+  errors: string[],
+): RegExp | null {
+  if (!isNonEmptyString(source)) {
+    errors.push(`${where}: expected a non-empty regular expression string`);
+    return null;
+  }
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    errors.push(
+      `${where}: invalid regular expression /${source}/${flags}: ${(err as Error).message}`,
+    );
+    return null;
+  }
+}
+
+function validateStringList(where: string, value: unknown, errors: string[]): string[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${where}: expected an array of strings`);
+    return [];
+  }
+  value.forEach((item, i) => {
+    if (!isNonEmptyString(item)) errors.push(`${where}[${i}]: expected a non-empty string`);
+  });
+  return value.filter(isNonEmptyString);
+}
+
+function compileConfig(
+  raw: unknown,
+  configPath: string,
+): { config: LibraryConfig; errors: string[] } {
+  const errors: string[] = [];
+  const file = (isPlainObject(raw) ? raw : {}) as Partial<LibraryConfigFile>;
+  if (!isPlainObject(raw)) errors.push("expected a JSON object at the top level");
+
+  for (const key of Object.keys(file)) {
+    if (!KNOWN_KEYS.has(key)) errors.push(`${key}: unknown setting`);
+  }
+
+  if (!isNonEmptyString(file.rootKey)) errors.push("rootKey: expected a non-empty string");
+
+  const releaseNameCleanup: RegExp[] = [];
+  if (Array.isArray(file.releaseNameCleanup)) {
+    file.releaseNameCleanup.forEach((spec, i) => {
+      const where = `releaseNameCleanup[${i}]`;
+      let regex: RegExp | null = null;
+      if (typeof spec === "string") {
+        regex = compilePattern(where, spec, "i", errors);
+      } else if (isPlainObject(spec)) {
+        regex = compilePattern(`${where}.pattern`, spec.pattern, spec.flags ?? "i", errors);
+      } else {
+        errors.push(`${where}: expected a pattern string or { pattern, flags }`);
+      }
+      if (regex) releaseNameCleanup.push(regex);
+    });
+  } else {
+    errors.push("releaseNameCleanup: expected an array");
+  }
+
+  const reissuePatterns: LibraryConfig["reissuePatterns"] = [];
+  if (Array.isArray(file.reissuePatterns)) {
+    file.reissuePatterns.forEach((entry, i) => {
+      const where = `reissuePatterns[${i}]`;
+      if (!isPlainObject(entry)) {
+        errors.push(`${where}: expected { pattern, label }`);
+        return;
+      }
+      const regex = compilePattern(`${where}.pattern`, entry.pattern, "i", errors);
+      if (!isNonEmptyString(entry.label))
+        errors.push(`${where}.label: expected a non-empty string`);
+      if (regex && isNonEmptyString(entry.label)) {
+        reissuePatterns.push({ pattern: regex, label: entry.label });
+      }
+    });
+  } else {
+    errors.push("reissuePatterns: expected an array");
+  }
+
+  const formatMarkers: LibraryConfig["formatMarkers"] = [];
+  if (Array.isArray(file.formatMarkers)) {
+    file.formatMarkers.forEach((entry, i) => {
+      const where = `formatMarkers[${i}]`;
+      if (!isPlainObject(entry)) {
+        errors.push(`${where}: expected { pattern, label, lossless? }`);
+        return;
+      }
+      const regex = compilePattern(`${where}.pattern`, entry.pattern, "i", errors);
+      if (!isNonEmptyString(entry.label)) {
+        errors.push(`${where}.label: expected a non-empty string`);
+      }
+      if (entry.lossless !== undefined && typeof entry.lossless !== "boolean") {
+        errors.push(`${where}.lossless: expected true or false`);
+      }
+      if (regex && isNonEmptyString(entry.label)) {
+        formatMarkers.push({
+          pattern: regex,
+          label: entry.label,
+          lossless: entry.lossless === true,
+        });
+      }
+    });
+  } else {
+    errors.push("formatMarkers: expected an array");
+  }
+
+  const countries: Record<string, CountryConfig> = {};
+  if (isPlainObject(file.countries)) {
+    for (const [code, entry] of Object.entries(file.countries)) {
+      const where = `countries.${code}`;
+      if (!/^[\p{L}]{2,3}$/u.test(code)) errors.push(`${where}: codes must be 2-3 letters`);
+      if (!isPlainObject(entry) || !isNonEmptyString(entry.name)) {
+        errors.push(`${where}.name: expected a non-empty string`);
+        continue;
+      }
+      if (!isNonEmptyString(entry.iso) || !/^[a-z]{2}$/.test(entry.iso)) {
+        errors.push(`${where}.iso: expected a lowercase ISO 3166-1 alpha-2 code`);
+        continue;
+      }
+      countries[code] = { name: entry.name, iso: entry.iso };
+    }
+  } else {
+    errors.push("countries: expected an object keyed by country code");
+  }
+
+  const config: LibraryConfig = {
+    configPath,
+    rootKey: file.rootKey ?? "",
+    ignoredGenres: new Set(validateStringList("ignoredGenres", file.ignoredGenres, errors)),
+    discFolderPattern:
+      compilePattern("discFolderPattern", file.discFolderPattern, "i", errors) ?? /$^/,
+    extrasFolderPattern:
+      compilePattern("extrasFolderPattern", file.extrasFolderPattern, "i", errors) ?? /$^/,
+    boxSetPattern: compilePattern("boxSetPattern", file.boxSetPattern, "i", errors) ?? /$^/,
+    releaseNameCleanup,
+    reissuePatterns,
+    formatMarkers,
+    artistTags: new Set(
+      validateStringList("artistTags", file.artistTags, errors).map((t) => t.toLowerCase()),
+    ),
+    falsePositiveCodes: new Set(
+      validateStringList("falsePositiveCodes", file.falsePositiveCodes, errors),
+    ),
+    countries,
+  };
+
+  return { config, errors };
+}
+
+// ─── Loading ────────────────────────────────────────────────────────────
+
+let cached: LibraryConfig | null = null;
+
+/**
+ * Path of the parser configuration: library.config.json in the project root
+ * unless LIBRARY_CONFIG points elsewhere.
+ */
+export function getLibraryConfigPath(): string {
+  const configured = loadEnvVar("LIBRARY_CONFIG");
+  return configured ? path.resolve(ROOT, configured) : DEFAULT_CONFIG_PATH;
+}
+
+/**
+ * Load and validate the parser configuration. Throws a CommandError listing
+ * the problems when the file is missing or invalid.
+ */
+export function loadLibraryConfig(): LibraryConfig {
+  if (cached) return cached;
+
+  const configPath = getLibraryConfigPath();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (err) {
+    throw new CommandError(
+      `Could not read library config ${configPath}: ${(err as Error).message}`,
+    );
+  }
+
+  const { config, errors } = compileConfig(raw, configPath);
+  if (errors.length > 0) {
+    throw new CommandError(
+      [`Invalid library config ${configPath}:`, ...errors.map((error) => `  ${error}`)].join("\n"),
+    );
+  }
+
+  cached = config;
+  return config;
+}
@@ -0,0 +1,21 @@
+import fs from "node:fs";
+import { loadEnvVar } from "./spotify/spotifyAuth.js";
+
+/**
+ * The music library folder from MUSIC_LIBRARY_ROOT. Logs why and returns null
+ * when it is not set or not a directory, so the command can fail.
+ */
+export function getMusicLibraryRoot(): string | null {
+  const root = loadEnvVar("MUSIC_LIBRARY_ROOT");
+  if (!root) {
+    console.error("MUSIC_LIBRARY_ROOT not set. Set it in .env or as environment variable.");
+    return null;
+  }
+  console.log(`Music library root: ${root}`);
+
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    console.error(`Music library root not found or not a directory: ${root}`);
+    return null;
+  }
+  return root;
+}
@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { type CommandOptions, type CommandResult, isSelected } from "./commandOptions.js";
+import { readGeneratedFile } from "./generatedData.js";
+import { forEachArtistAndCompilation } from "./traversal.js";
+import type { Album, MusicLibrary } from "./types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+// ─── Types ──────────────────────────────────────────────────────────────
+
+interface LibraryCounts {
+  artists: number;
+  compilations: number;
+  albums: number;
+  losslessAlbums: number;
+  audioFiles: number;
+  totalBytes: number;
+  /** Albums per release type, e.g. { album: 812, ep: 96 } */
+  releaseTypes: Record<string, number>;
+  /** Artists per top-level genre; an artist filed under several counts in each */
+  genres: Record<string, number>;
+  /** Artists per country */
+  countries: Record<string, number>;
+}
+
+// ─── Counting ───────────────────────────────────────────────────────────
+
+function countAlbums(counts: LibraryCounts, albums: Album[]): void {
+  for (const album of albums) {
+    counts.albums++;
+    if (album.formats.some((format) => format.lossless)) counts.losslessAlbums++;
+    counts.audioFiles += album.media?.audioFileCount ?? 0;
+    counts.totalBytes += album.media?.totalBytes ?? 0;
+    counts.releaseTypes[album.type] = (counts.releaseTypes[album.type] ?? 0) + 1;
+  }
+}
+
+function countLibrary(musicData: MusicLibrary, options: CommandOptions): LibraryCounts {
+  const counts: LibraryCounts = {
+    artists: 0,
+    compilations: 0,
+    albums: 0,
+    losslessAlbums: 0,
+    audioFiles: 0,
+    totalBytes: 0,
+    releaseTypes: {},
+    genres: {},
+    countries: {},
+  };
+
+  forEachArtistAndCompilation(
+    musicData,
+    (artist) => {
+      if (!isSelected(options, artist)) return;
+      counts.artists++;
+      countAlbums(counts, artist.albums);
+      for (const genre of new Set(artist.genrePaths.map((genrePath) => genrePath[0]))) {
+        counts.genres[genre] = (counts.genres[genre] ?? 0) + 1;
+      }
+      const country = artist.country ?? "Unknown";
+      counts.countries[country] = (counts.countries[country] ?? 0) + 1;
+    },
+    (comp) => {
+      if (!isSelected(options, comp)) return;
+      counts.compilations++;
+      countAlbums(counts, comp.albums);
+    },
+  );
+
+  return counts;
+}
+
+// ─── Output ─────────────────────────────────────────────────────────────
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function printTop(label: string, counts: Record<string, number>, limit = 10): void {
+  const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  if (sorted.length === 0) return;
+  console.log(`\n${label}:`);
+  for (const [name, count] of sorted.slice(0, limit)) {
+    console.log(`  ${String(count).padStart(6)}  ${name}`);
+  }
+  if (sorted.length > limit) console.log(`  ...and ${sorted.length - limit} more`);
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+/**
+ * `mlb stats`: summarise the parsed library, or the part of it selected with
+ * --only or --genre.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
+  const musicDataPath = path.join(ROOT, "data", "generated", "musicData.json");
+  if (!fs.existsSync(musicDataPath)) {
+    console.error("musicData.json not found. Run 'pnpm parse' first.");
+    return { ok: false, error: "musicData.json not found" };
+  }
+
+  const musicData = readGeneratedFile<MusicLibrary>(musicDataPath, "musicData");
+  const counts = countLibrary(musicData, options);
+
+  console.log(`--- Library Stats (${musicData.stats.generatedAt}) ---`);
+  console.log(`Artists:      ${counts.artists}`);
+  console.log(`Compilations: ${counts.compilations}`);
+  console.log(`Albums:       ${counts.albums} (${counts.losslessAlbums} lossless)`);
+  console.log(`Audio files:  ${counts.audioFiles} (${formatBytes(counts.totalBytes)})`);
+  printTop("Release types", counts.releaseTypes);
+  printTop("Genres (artists)", counts.genres);
+  printTop("Countries (artists)", counts.countries);
+
+  return { ok: true, generatedAt: musicData.stats.generatedAt, ...counts };
+}
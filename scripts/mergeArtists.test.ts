@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeArtists } from "./mergeArtists.js";
+import { type Album, type Artist, type Genre, ReleaseType, type Subgenre } from "./types.js";
+
+function album(folderPath: string[], year: number): Album {
+  const rawFolderName = folderPath[folderPath.length - 1];
+  return {
+    name: rawFolderName,
+    slug: `${rawFolderName.toLowerCase()}-${year}`,
+    year,
+    releaseDate: { year },
+    type: ReleaseType.Album,
+    hasMultipleDiscs: false,
+    discCount: 1,
+    discs: [],
+    extras: [],
+    rawFolderName,
+    folderPath,
+    formats: [],
+  };
+}
+
+function artist(
+  slug: string,
+  genrePath: string[],
+  rawFolderName: string,
+  albums: [string, number][],
+  extra: Partial<Artist> = {},
+): Artist {
+  return {
+    // "Anathema (UK) (early)" → "Anathema"
+    name: rawFolderName.replace(/ \(.*$/, ""),
+    slug,
+    countryCode: null,
+    country: null,
+    isoCodes: [],
+    tags: [],
+    genrePath,
+    genrePaths: [genrePath],
+    albums: albums.map(([name, year]) => album([...genrePath, rawFolderName, name], year)),
+    rawFolderName,
+    ...extra,
+  };
+}
+
+function subgenre(fullPath: string[], artists: Artist[]): Subgenre {
+  const name = fullPath[fullPath.length - 1];
+  return { name, slug: name.toLowerCase(), fullPath, subgenres: [], artists, compilations: [] };
+}
+
+function genre(name: string, subgenres: Subgenre[], artists: Artist[] = []): Genre {
+  return { name, slug: name.toLowerCase(), subgenres, artists, compilations: [] };
+}
+
+describe("mergeArtists", () => {
+  const identity = (a: Artist) => `${a.name}|${a.countryCode}`;
+
+  it("merges folders of one artist and lists the result under each genre", () => {
+    const doom = artist("candlemass-swe", ["Metal", "Doom"], "Candlemass (Swe)", [
+      ["Nightfall", 1987],
+    ]);
+    const epic = artist("candlemass-swe-2", ["Metal", "Epic"], "Candlemass (Swe)", [
+      ["Epicus", 1986],
+    ]);
+    const genres = [
+      genre("Metal", [subgenre(["Metal", "Doom"], [doom]), subgenre(["Metal", "Epic"], [epic])]),
+    ];
+
+    const [merged] = mergeArtists(genres, identity);
+
+    assert.equal(merged.slug, "candlemass-swe");
+    assert.deepEqual(merged.genrePaths, [
+      ["Metal", "Doom"],
+      ["Metal", "Epic"],
+    ]);
+    assert.deepEqual(
+      merged.albums.map((a) => a.slug),
+      ["epicus-1986", "nightfall-1987"],
+    );
+    assert.equal(genres[0].subgenres[0].artists[0], merged);
+    assert.equal(genres[0].subgenres[1].artists[0], merged);
+  });
+
+  it("keeps the other folders' slugs as aliases of the folder they named", () => {
+    const first = artist("unkind-fin", ["Hardcore"], "Unkind (Fin)", [["Harhakuvat", 2009]], {
+      slugAliases: ["unkind"],
+    });
+    const second = artist("unkind-fin-2", ["Crust"], "Unkind (Fin)", [["Pelko", 2011]], {
+      slugAliases: ["unkind-fin-hc"],
+    });
+
+    const [merged] = mergeArtists(
+      [genre("Hardcore", [], [first]), genre("Crust", [], [second])],
+      identity,
+    );
+
+    assert.deepEqual(merged.slugAliases, ["unkind", "unkind-fin-2", "unkind-fin-hc"]);
+    assert.deepEqual(merged.slugAliasFolders, {
+      unkind: "Hardcore/Unkind (Fin)",
+      "unkind-fin-2": "Crust/Unkind (Fin)",
+      "unkind-fin-hc": "Crust/Unkind (Fin)",
+    });
+  });
+
+  it("prefers the shortest slug as the primary", () => {
+    const suffixed = artist("candlemass-swe-2", ["Doom"], "Candlemass (Swe)", [
+      ["Nightfall", 1987],
+    ]);
+    const plain = artist("candlemass-swe", ["Epic"], "Candlemass (Swe)", [["Epicus", 1986]]);
+
+    const [merged] = mergeArtists(
+      [genre("Doom", [], [suffixed]), genre("Epic", [], [plain])],
+      identity,
+    );
+
+    assert.equal(merged.slug, "candlemass-swe");
+    assert.deepEqual(merged.genrePath, ["Epic"]);
+  });
+
+  it("orders eras by first release when the folders are tagged differently", () => {
+    const later = artist("anathema-uk", ["Rock"], "Anathema (UK) (later)", [["Judgement", 1999]], {
+      tags: ["later"],
+    });
+    const early = artist(
+      "anathema-uk-2",
+      ["Doom"],
+      "Anathema (UK) (early)",
+      [["Serenades", 1993]],
+      {
+        tags: ["early"],
+      },
+    );
+
+    const [merged] = mergeArtists(
+      [genre("Rock", [], [later]), genre("Doom", [], [early])],
+      identity,
+    );
+
+    assert.deepEqual(merged.tags, ["later", "early"]);
+    assert.deepEqual(
+      merged.eras?.map((era) => [era.tags, era.albumSlugs]),
+      [
+        [["early"], ["serenades-1993"]],
+        [["later"], ["judgement-1999"]],
+      ],
+    );
+  });
+
+  it("leaves artists without another folder untouched", () => {
+    const solo = artist("solitude-aeturnus-usa", ["Doom"], "Solitude Aeturnus (USA)", [
+      ["Into the Depths of Sorrow", 1991],
+    ]);
+    const genres = [genre("Doom", [], [solo])];
+
+    assert.deepEqual(mergeArtists(genres, identity), []);
+    assert.equal(genres[0].artists[0], solo);
+    assert.equal(solo.eras, undefined);
+  });
+});
@@ -0,0 +1,106 @@
+import { compareReleaseDates } from "./releaseDates.js";
+import { folderKey } from "./traversal.js";
+import type { Artist, ArtistEra, Genre, ReleaseDate, Subgenre } from "./types.js";
+
+/**
+ * Prefer the shortest (then alphabetically first) slug as the merged artist's
+ * slug. New folders for a known artist get suffixed slugs from the registry,
+ * so the primary slug does not change when another folder is added.
+ */
+function comparePrimary(a: Artist, b: Artist): number {
+  return a.slug.length - b.slug.length || a.slug.localeCompare(b.slug);
+}
+
+// Albums are sorted by date within each folder
+function firstReleaseDate(artist: Artist): ReleaseDate | null {
+  return artist.albums[0]?.releaseDate ?? null;
+}
+
+/**
+ * Eras of a group whose folders are tagged differently ("Band (Nor) (early)",
+ * "Band (Nor) (later)"), ordered by each folder's first release. Each keeps its
+ * folder's tags and genre, so genre pages can show the era filed under them.
+ */
+function getEras(group: Artist[]): ArtistEra[] | undefined {
+  if (new Set(group.map((artist) => artist.tags.join(","))).size < 2) return undefined;
+  return [...group]
+    .sort((a, b) => compareReleaseDates(firstReleaseDate(a), firstReleaseDate(b)))
+    .map((artist) => ({
+      tags: artist.tags,
+      genrePath: artist.genrePath,
+      rawFolderName: artist.rawFolderName,
+      albumSlugs: artist.albums.map((album) => album.slug),
+    }));
+}
+
+function mergeGroup(group: Artist[]): Artist {
+  const [primary, ...others] = [...group].sort(comparePrimary);
+
+  const genrePaths = [primary.genrePath];
+  for (const artist of group) {
+    if (!genrePaths.some((p) => p.join("/") === artist.genrePath.join("/"))) {
+      genrePaths.push(artist.genrePath);
+    }
+  }
+
+  const aliasFolders = group.flatMap((artist) => {
+    const folder = folderKey([...artist.genrePath, artist.rawFolderName]);
+    const slugs = [...(artist === primary ? [] : [artist.slug]), ...(artist.slugAliases ?? [])];
+    return slugs.map((slug) => [slug, folder] as const);
+  });
+
+  return {
+    ...primary,
+    tags: [...new Set(group.flatMap((artist) => artist.tags))],
+    genrePaths,
+    albums: group
+      .flatMap((artist) => artist.albums)
+      .sort((a, b) => compareReleaseDates(a.releaseDate, b.releaseDate)),
+    slugAliases: [
+      ...(primary.slugAliases ?? []),
+      ...others.flatMap((artist) => [artist.slug, ...(artist.slugAliases ?? [])]),
+    ],
+    slugAliasFolders: Object.fromEntries(aliasFolders),
+    eras: getEras(group),
+  };
+}
+
+/**
+ * Merge artist folders that share an identity (name + country code unless an
+ * override sets artistId) into one artist. The merged artist replaces every
+ * original in the genre tree, so it is listed under each of its genres.
+ * Returns the merged artists.
+ */
+export function mergeArtists(genres: Genre[], identityOf: (artist: Artist) => string): Artist[] {
+  const nodes: { artists: Artist[] }[] = [];
+  function collect(node: Genre | Subgenre) {
+    nodes.push(node);
+    node.subgenres.forEach(collect);
+  }
+  genres.forEach(collect);
+
+  const groups = new Map<string, Artist[]>();
+  for (const node of nodes) {
+    for (const artist of node.artists) {
+      const id = identityOf(artist);
+      const group = groups.get(id) ?? [];
+      group.push(artist);
+      groups.set(id, group);
+    }
+  }
+
+  const replacements = new Map<Artist, Artist>();
+  const merged: Artist[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const artist = mergeGroup(group);
+    merged.push(artist);
+    for (const original of group) replacements.set(original, artist);
+  }
+
+  for (const node of nodes) {
+    node.artists = [...new Set(node.artists.map((artist) => replacements.get(artist) ?? artist))];
+  }
+
+  return merged;
+}
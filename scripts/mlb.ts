@@ -0,0 +1,206 @@
+import { parseArgs } from "node:util";
+import {
+  type CommandLoader,
+  type CommandOptions,
+  DEFAULT_OPTIONS,
+  runCommand,
+} from "./commandOptions.js";
+
+// Entry point for every data command: `pnpm mlb <command> [options]`.
+// Exit codes: 0 success, 1 the command failed or found problems, 2 usage error.
+
+// ─── Commands ───────────────────────────────────────────────────────────
+
+type Flag = "only" | "genre" | "dry-run" | "json" | "limit" | "ignore" | "folder" | "force";
+
+interface Command {
+  summary: string;
+  flags: Flag[];
+  load: CommandLoader;
+}
+
+const COMMANDS: Record<string, Command> = {
+  scan: {
+    summary: "Scan the music library folders (needs MUSIC_LIBRARY_ROOT)",
+    flags: ["folder", "ignore", "dry-run", "json"],
+    load: () => import("./scanLibrary.js"),
+  },
+  parse: {
+    summary: "Build musicData.json and the search index from the scan",
+    flags: ["genre", "dry-run", "json"],
+    load: () => import("./generateMusicData.js"),
+  },
+  tracks: {
+    summary: "Read track tags into the local track manifest",
+    flags: ["only", "genre", "dry-run", "json"],
+    load: () => import("./readLocalTracks.js"),
+  },
+  art: {
+    summary: "Resize album covers into public/album-art",
+    flags: ["only", "genre", "dry-run", "json"],
+    load: () => import("./processAlbumArt.js"),
+  },
+  collages: {
+    summary: "Build artist collages and genre mosaics from album art",
+    flags: ["dry-run", "json"],
+    load: () => import("./buildCollages.js"),
+  },
+  "spotify artists": {
+    summary: "Look up artists on Spotify (needs SPOTIFY_CLIENT_ID/SECRET)",
+    flags: ["only", "genre", "limit", "dry-run", "json"],
+    load: () => import("./spotify/fetchSpotifyArtists.js"),
+  },
+  "spotify albums": {
+    summary: "Match albums and track lists on Spotify",
+    flags: ["only", "genre", "limit", "dry-run", "json"],
+    load: () => import("./spotify/fetchSpotifyAlbums.js"),
+  },
+  validate: {
+    summary: "Check generated data against its schemas and references",
+    flags: ["json"],
+    load: () => import("./validateData.js"),
+  },
+  stats: {
+    summary: "Summarise the parsed library",
+    flags: ["only", "genre", "json"],
+    load: () => import("./libraryStats.js"),
+  },
+  pipeline: {
+    summary: "Run every stage from scan to validate, skipping up-to-date ones",
+    flags: ["force", "ignore", "dry-run", "json"],
+    load: () => import("./pipeline.js"),
+  },
+};
+
+const FLAG_HELP: Record<Flag, string> = {
+  only: "--only <slug>      Only this artist or compilation (repeatable)",
+  genre: "--genre <path>     Only artists under this genre, e.g. metal/doom",
+  "dry-run": "--dry-run          Show what would be done without writing files",
+  json: "--json             Print a JSON summary on stdout (logs go to stderr)",
+  limit: "--limit <n>        Process at most n artists",
+  ignore: "--ignore <names>   Skip folders with these names (comma-separated)",
+  folder: "--folder <path>    Rescan only this folder below the library root (repeatable)",
+  force: "--force            Run every stage, even when up to date",
+};
+
+// ─── Help ───────────────────────────────────────────────────────────────
+
+function printHelp(): void {
+  console.log("Usage: pnpm mlb <command> [options]\n\nCommands:");
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    console.log(`  ${name.padEnd(17)} ${command.summary}`);
+  }
+  console.log("\nRun 'pnpm mlb <command> --help' for the options of a command.");
+  console.log("Exit codes: 0 success, 1 failed or problems found, 2 usage error.");
+}
+
+function printCommandHelp(name: string, command: Command): void {
+  console.log(`Usage: pnpm mlb ${name} [options]\n\n${command.summary}\n\nOptions:`);
+  for (const flag of command.flags) console.log(`  ${FLAG_HELP[flag]}`);
+  console.log(`  ${"-h, --help".padEnd(18)} Show this help`);
+}
+
+function usageError(message: string): never {
+  console.error(`${message}\nRun 'pnpm mlb --help' for usage.`);
+  process.exit(2);
+}
+
+// ─── Arguments ──────────────────────────────────────────────────────────
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        only: { type: "string", multiple: true },
+        genre: { type: "string" },
+        "dry-run": { type: "boolean" },
+        json: { type: "boolean" },
+        limit: { type: "string" },
+        ignore: { type: "string", multiple: true },
+        folder: { type: "string", multiple: true },
+        force: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    usageError((err as Error).message);
+  }
+}
+
+/** "spotify" takes a second word; every other command is one word */
+function resolveCommand(positionals: string[]): string | null {
+  const words = positionals[0] === "spotify" ? 2 : 1;
+  if (positionals.length > words) usageError(`Unexpected argument: ${positionals[words]}`);
+  return positionals.length > 0 ? positionals.slice(0, words).join(" ") : null;
+}
+
+function toOptions(values: ReturnType<typeof parseCommandLine>["values"]): CommandOptions {
+  const options: CommandOptions = {
+    ...DEFAULT_OPTIONS,
+    only: values.only ?? [],
+    genre: values.genre,
+    dryRun: values["dry-run"] ?? false,
+    json: values.json ?? false,
+    ignore: (values.ignore ?? []).flatMap((list) =>
+      list
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean),
+    ),
+    folders: values.folder ?? [],
+    force: values.force ?? false,
+  };
+
+  if (values.limit !== undefined) {
+    const limit = Number(values.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      usageError(`--limit must be a positive whole number, got "${values.limit}"`);
+    }
+    options.limit = limit;
+  }
+  return options;
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+async function main() {
+  const { values, positionals } = parseCommandLine();
+  const name = resolveCommand(positionals);
+
+  if (!name) {
+    printHelp();
+    if (!values.help) process.exitCode = 2;
+    return;
+  }
+
+  if (name === "spotify") usageError("'spotify' needs a subcommand: artists or albums");
+  const command = COMMANDS[name];
+  if (!command) usageError(`Unknown command: ${name}`);
+  if (values.help) {
+    printCommandHelp(name, command);
+    return;
+  }
+
+  const unsupported = (Object.keys(FLAG_HELP) as Flag[]).filter(
+    (flag) => values[flag] !== undefined && !command.flags.includes(flag),
+  );
+  if (unsupported.length > 0) {
+    usageError(`'${name}' does not accept ${unsupported.map((flag) => `--${flag}`).join(", ")}`);
+  }
+
+  const options = toOptions(values);
+  // Keep stdout for the JSON summary
+  if (options.json) console.log = console.error;
+
+  const result = await runCommand(command.load, options);
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ command: name, ...result }, null, 2)}\n`);
+  }
+  process.exitCode = result.ok ? 0 : 1;
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+import fs from "node:fs";
+import { CommandError } from "./commandOptions.js";
+import { type FolderOverride, type NodeType, ReleaseType } from "./types.js";
+
+const NODE_TYPES: NodeType[] = ["subgenre", "artist", "compilation", "album", "ignore"];
+const RELEASE_TYPES = Object.values(ReleaseType) as string[];
+
+export interface OverrideSet {
+  /** Look up the override for a folder key, marking it as used */
+  get(key: string): FolderOverride | undefined;
+  /** Keys that never matched a folder during this run */
+  unused(): string[];
+  size: number;
+}
+
+/**
+ * Validate one override entry, returning a list of human-readable problems.
+ */
+function validateOverride(key: string, value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [`"${key}": expected an object`];
+  }
+
+  const errors: string[] = [];
+  const entry = value as Record<string, unknown>;
+  const isString = (v: unknown) => typeof v === "string" && v.length > 0;
+
+  for (const [field, fieldValue] of Object.entries(entry)) {
+    const where = `"${key}".${field}`;
+    switch (field) {
+      case "type":
+        if (!NODE_TYPES.includes(fieldValue as NodeType)) {
+          errors.push(`${where}: must be one of ${NODE_TYPES.join(", ")}`);
+        }
+        break;
+      case "releaseType":
+        if (!RELEASE_TYPES.includes(fieldValue as string)) {
+          errors.push(`${where}: must be one of ${RELEASE_TYPES.join(", ")}`);
+        }
+        break;
+      case "name":
+      case "artistId":
+        if (!isString(fieldValue)) errors.push(`${where}: must be a non-empty string`);
+        break;
+      case "slug":
+        if (!isString(fieldValue) || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(fieldValue as string)) {
+          errors.push(`${where}: must be lowercase letters, digits and single dashes`);
+        }
+        break;
+      case "countryCode":
+      case "reissue":
+        if (fieldValue !== null && !isString(fieldValue)) {
+          errors.push(`${where}: must be a non-empty string or null`);
+        }
+        break;
+      case "year":
+        if (fieldValue !== null && !Number.isInteger(fieldValue)) {
+          errors.push(`${where}: must be an integer year or null`);
+        }
+        break;
+      case "tags":
+        if (!Array.isArray(fieldValue) || !fieldValue.every(isString)) {
+          errors.push(`${where}: must be an array of strings`);
+        }
+        break;
+      default:
+        errors.push(`${where}: unknown field`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Load curated parser overrides keyed by raw folder path below the library root,
+ * e.g. "Metal/Gothic/Cemetary (Swe) later". Throws a CommandError with a readable
+ * error list when the file is malformed; a missing file means no overrides.
+ */
+export function loadOverrides(overridesPath: string): OverrideSet {
+  let raw: Record<string, unknown> = {};
+
+  if (fs.existsSync(overridesPath)) {
+    try {
+      raw = JSON.parse(fs.readFileSync(overridesPath, "utf-8"));
+    } catch (err) {
+      throw new CommandError(`Could not parse ${overridesPath}: ${err}`);
+    }
+  }
+
+  const errors = Object.entries(raw)
+    .filter(([key]) => !key.startsWith("$"))
+    .flatMap(([key, value]) => validateOverride(key, value));
+
+  if (errors.length > 0) {
+    throw new CommandError(
+      [`Invalid overrides in ${overridesPath}:`, ...errors.map((error) => `  ${error}`)].join("\n"),
+    );
+  }
+
+  const entries = new Map(
+    Object.entries(raw).filter(([key]) => !key.startsWith("$")) as [string, FolderOverride][],
+  );
+  const used = new Set<string>();
+
+  return {
+    get(key) {
+      const override = entries.get(key);
+      if (override) used.add(key);
+      return override;
+    },
+    unused() {
+      return [...entries.keys()].filter((key) => !used.has(key));
+    },
+    size: entries.size,
+  };
+}
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import type { Classification, ParseReport, ParseReportFlag, ParseReportNode } from "./types.js";
+
+export function createParseReport(): ParseReport {
+  return {
+    schemaVersion: SCHEMA_VERSIONS.parseReport,
+    generatedAt: new Date().toISOString(),
+    countsByType: {},
+    countsByRule: {},
+    flags: {
+      artistsWithoutCountry: [],
+      albumLikeSubgenres: [],
+      emptyIgnored: [],
+    },
+    unknownCountryCodes: {},
+    nodes: [],
+  };
+}
+
+function recordNode(report: ParseReport, node: ParseReportNode): void {
+  report.nodes.push(node);
+  report.countsByType[node.type] = (report.countsByType[node.type] ?? 0) + 1;
+  report.countsByRule[node.rule] = (report.countsByRule[node.rule] ?? 0) + 1;
+}
+
+export function recordGenre(report: ParseReport, folderPath: string): void {
+  recordNode(report, { path: folderPath, type: "genre", rule: "genre-folder" });
+}
+
+/**
+ * Record a classifyNode decision and flag the borderline cases worth a manual look.
+ */
+export function recordClassification(
+  report: ParseReport,
+  folderPath: string,
+  classification: Classification,
+  countryCode: string | null = null,
+): void {
+  const { type, rule, albumLikeChildren, totalChildren } = classification;
+  recordNode(report, { path: folderPath, type, rule });
+
+  if (type === "artist" && !countryCode) {
+    report.flags.artistsWithoutCountry.push({
+      path: folderPath,
+      reason: `classified as artist by "${rule}" but has no country code`,
+    });
+  }
+
+  if (type === "subgenre" && albumLikeChildren > 0) {
+    report.flags.albumLikeSubgenres.push({
+      path: folderPath,
+      reason: `${albumLikeChildren}/${totalChildren} children look like albums ([YYYY] prefix)`,
+    });
+  }
+
+  if (type === "ignore" && rule === "empty") {
+    report.flags.emptyIgnored.push({ path: folderPath, reason: "empty folder ignored" });
+  }
+}
+
+/**
+ * Record country-code-like parentheticals of a folder that did not resolve
+ * (see findUnknownCountryCodes), grouped by code.
+ */
+export function recordUnknownCountryCodes(
+  report: ParseReport,
+  folderPath: string,
+  codes: string[],
+): void {
+  for (const code of codes) {
+    const folders = report.unknownCountryCodes[code] ?? [];
+    folders.push(folderPath);
+    report.unknownCountryCodes[code] = folders;
+  }
+}
+
+/**
+ * Copy the nodes, flags and unknown codes of a previous report whose folders
+ * match `keep`, for the part of the library a partial parse did not walk.
+ */
+export function keepReportEntries(
+  report: ParseReport,
+  previous: ParseReport,
+  keep: (folderPath: string) => boolean,
+): void {
+  for (const node of previous.nodes) {
+    if (keep(node.path)) recordNode(report, node);
+  }
+  for (const name of Object.keys(report.flags) as (keyof ParseReport["flags"])[]) {
+    report.flags[name].push(...previous.flags[name].filter((flag) => keep(flag.path)));
+  }
+  for (const [code, folders] of Object.entries(previous.unknownCountryCodes)) {
+    for (const folder of folders.filter(keep)) recordUnknownCountryCodes(report, folder, [code]);
+  }
+}
+
+export function writeParseReport(report: ParseReport, reportPath: string): void {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+}
+
+function printFlags(label: string, flags: ParseReportFlag[], limit = 5): void {
+  console.log(`${label}: ${flags.length}`);
+  for (const flag of flags.slice(0, limit)) {
+    console.log(`  ${flag.path} (${flag.reason})`);
+  }
+  if (flags.length > limit) {
+    console.log(`  ...and ${flags.length - limit} more`);
+  }
+}
+
+export function printParseReportSummary(report: ParseReport): void {
+  console.log("\n--- Classification ---");
+  const rules = Object.entries(report.countsByRule).sort((a, b) => b[1] - a[1]);
+  for (const [rule, count] of rules) {
+    console.log(`  ${rule.padEnd(26)} ${count}`);
+  }
+
+  console.log("\n--- Needs review ---");
+  printFlags("Artists without country code", report.flags.artistsWithoutCountry);
+  printFlags("Subgenres with album-like children", report.flags.albumLikeSubgenres);
+  printFlags("Empty folders ignored", report.flags.emptyIgnored);
+
+  const unknownCodes = Object.entries(report.unknownCountryCodes).sort(
+    (a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]),
+  );
+  console.log(`Unknown country codes: ${unknownCodes.length}`);
+  for (const [code, folders] of unknownCodes) {
+    const shown = folders.slice(0, 3).join(", ");
+    const more = folders.length > 3 ? ` and ${folders.length - 3} more` : "";
+    console.log(`  (${code}) ${shown}${more}`);
+  }
+  if (unknownCodes.length > 0) {
+    console.log("  Add them to countries or falsePositiveCodes in library.config.json");
+  }
+}
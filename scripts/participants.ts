@@ -0,0 +1,191 @@
+import { forEachArtist } from "./traversal.js";
+import type { Album, AlbumParticipant, Artist, MusicLibrary } from "./types.js";
+
+type Resolver = (name: string) => Artist | undefined;
+
+/** Separators between artist names, e.g. "A & B", "A, B", "A vs B" */
+const NAME_SEPARATOR = /\s*(?:&|,|\/|\bvs\.?(?=\s))\s*/i;
+
+/** Separators in a collaboration artist folder name, e.g. "Steve Roach & Robert Rich" */
+const ARTIST_SEPARATOR = /\s+(?:&|vs\.?)\s+/i;
+
+/** "and" also joins words in band names, so "A and B" needs both to be known artists */
+const ARTIST_AND = /\s+and\s+/i;
+
+/** "Split with X - Title", also "Split Live with X" and "Split withX" */
+const SPLIT_WITH = /\bsplit\w*\s+(?:live\s+)?with\s*(.+)/i;
+
+/** "A - B - Split" or "A & B Split - Title" */
+const SPLIT_SUFFIX = /^(.+?)\s*-?\s+split\b/i;
+
+/** "Title (with X)" or "Title [feat X]" */
+const GUEST = /[([](?:with|feat\.?|featuring)\s+([^)\]]+)[)\]]/i;
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/** Folder name without its leading date, e.g. "[1999] " or "[2012-05-13] " */
+function releaseText(album: Album): string {
+  return album.rawFolderName.replace(/^\[[^\]]*\]\s*/, "");
+}
+
+/** Names part of a string up to the release title, e.g. "X" from "X - Title (Lossless)" */
+function leadingNames(text: string): string {
+  return text
+    .split(/\s+-\s+/)[0]
+    .replace(/(\s*[([][^)\]]*[)\]])+$/, "")
+    .trim();
+}
+
+/**
+ * Split a list of names on separators, unless the whole string is a known
+ * artist (so "Angels & Airwaves" stays one name).
+ */
+function splitNames(text: string, resolve: Resolver): string[] {
+  if (resolve(text)) return [text];
+  return text
+    .split(NAME_SEPARATOR)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Co-artist names in an album folder name. Names after "split with" or
+ * "with"/"feat" in brackets are taken as they are; names in a "A & B - Title"
+ * prefix or before "- Split" only when the owner is one of them or when they
+ * match a library artist, so titles like "Rare & Unreleased" are left alone.
+ */
+function albumCoArtists(album: Album, owner: Artist, resolve: Resolver): string[] {
+  const text = releaseText(album);
+  const ownerName = normalizeName(owner.name);
+  const names: string[] = [];
+
+  function addCandidates(candidates: string[]) {
+    const others = candidates.filter((name) => normalizeName(name) !== ownerName);
+    const hasOwner = others.length < candidates.length;
+    names.push(...others.filter((name) => hasOwner || resolve(name)));
+  }
+
+  const splitWith = text.match(SPLIT_WITH);
+  const splitSuffix = text.match(SPLIT_SUFFIX);
+  const prefix = text.split(/\s+-\s+/)[0];
+  if (splitWith) {
+    names.push(...splitNames(leadingNames(splitWith[1]), resolve));
+  } else if (splitSuffix) {
+    addCandidates(splitSuffix[1].split(/\s+-\s+/).flatMap((part) => splitNames(part, resolve)));
+  } else if (text.includes(" - ") && NAME_SEPARATOR.test(prefix)) {
+    const candidates = splitNames(prefix, resolve);
+    if (candidates.length > 1) addCandidates(candidates);
+  }
+
+  const guest = text.match(GUEST);
+  if (guest) names.push(...splitNames(guest[1].trim(), resolve));
+
+  return names;
+}
+
+/**
+ * Members of a collaboration artist folder ("A & B"), when at least one of
+ * them is an artist in the library.
+ */
+function folderCoArtists(owner: Artist, resolve: Resolver): string[] {
+  const parts = owner.name.split(ARTIST_SEPARATOR).map((name) => name.trim());
+  if (parts.length > 1 && parts.some((name) => resolve(name))) return parts;
+
+  const andParts = owner.name.split(ARTIST_AND).map((name) => name.trim());
+  if (andParts.length > 1 && andParts.every((name) => resolve(name))) return andParts;
+  return [];
+}
+
+/**
+ * Look up library artists by name, skipping the owner. Same-named bands are
+ * told apart by preferring the one in the owner's top-level genre.
+ */
+function buildNameIndex(artists: Artist[]): (name: string, owner: Artist) => Artist | undefined {
+  const byName = new Map<string, Artist[]>();
+  for (const artist of artists) {
+    const key = normalizeName(artist.name);
+    const matches = byName.get(key) ?? [];
+    matches.push(artist);
+    byName.set(key, matches);
+  }
+
+  return (name, owner) => {
+    const matches = (byName.get(normalizeName(name)) ?? []).filter((a) => a !== owner);
+    return matches.find((a) => a.genrePath[0] === owner.genrePath[0]) ?? matches[0];
+  };
+}
+
+/**
+ * Whether `artist` files its own copy of a release shared with `owner`,
+ * e.g. both bands of a split keep it in their folders.
+ */
+function ownsCopy(artist: Artist, owner: Artist, album: Album): boolean {
+  return artist.albums.some(
+    (own) =>
+      own.year === album.year &&
+      own.type === album.type &&
+      own.participants?.some((p) => p.artistSlug === owner.slug),
+  );
+}
+
+/**
+ * Find the other artists on split and collaboration releases, resolve them
+ * against artists in the library and record the release on each match's
+ * `appearsOn`. Run after artists are merged and editions grouped, so slugs
+ * are final. Returns the number of releases linked to another artist.
+ */
+export function linkParticipants(library: MusicLibrary): number {
+  const artists: Artist[] = [];
+  forEachArtist(library, (artist) => {
+    // Artists a partial parse kept from the previous run are linked again
+    delete artist.appearsOn;
+    artists.push(artist);
+  });
+
+  const findArtist = buildNameIndex(artists);
+  for (const artist of artists) {
+    const resolve: Resolver = (name) => findArtist(name, artist);
+    const members = folderCoArtists(artist, resolve);
+
+    for (const album of artist.albums) {
+      const participants = new Map<string, AlbumParticipant>();
+      for (const name of [...members, ...albumCoArtists(album, artist, resolve)]) {
+        const key = normalizeName(name);
+        if (participants.has(key) || key === normalizeName(artist.name)) continue;
+        const match = resolve(name);
+        participants.set(key, match ? { name, artistSlug: match.slug } : { name });
+      }
+
+      if (participants.size > 0) album.participants = [...participants.values()];
+    }
+  }
+
+  const bySlug = new Map(artists.map((artist) => [artist.slug, artist]));
+
+  let linked = 0;
+  for (const owner of artists) {
+    for (const album of owner.albums) {
+      // Editions are reached through their master release
+      if (album.masterSlug || !album.participants) continue;
+      let isLinked = false;
+      for (const participant of album.participants) {
+        const artist = participant.artistSlug ? bySlug.get(participant.artistSlug) : undefined;
+        if (!artist || ownsCopy(artist, owner, album)) continue;
+        artist.appearsOn = [
+          ...(artist.appearsOn ?? []),
+          { artistSlug: owner.slug, albumSlug: album.slug },
+        ];
+        isLinked = true;
+      }
+      if (isLinked) linked++;
+    }
+  }
+
+  return linked;
+}
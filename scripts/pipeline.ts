@@ -0,0 +1,248 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { ART_CONFIG, COLLAGE_CONFIG } from "./albumArtConfig.js";
+import {
+  type CommandLoader,
+  type CommandOptions,
+  type CommandResult,
+  runCommand,
+} from "./commandOptions.js";
+import { getLibraryConfigPath } from "./libraryConfig.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
+import { loadEnvVar } from "./spotify/spotifyAuth.js";
+import { SPOTIFY_CONFIG } from "./spotify/spotifyConfig.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+const MUSIC_DATA_PATH = "data/generated/musicData.json";
+
+// ─── Types ──────────────────────────────────────────────────────────────
+
+interface Stage {
+  command: string;
+  load: CommandLoader;
+  /** Why the stage cannot run in this environment, or null */
+  unavailable: () => string | null;
+  /** Files the stage reads (relative to the project root) */
+  inputs: () => string[];
+  /** Files the stage writes; it is up to date when all are newer than its inputs */
+  outputs: string[];
+  /** Extra staleness check for inputs that are not plain files */
+  staleSince?: (outputMtimeMs: number) => string | null;
+  /** Run on every pipeline, regardless of inputs (e.g. validation) */
+  always?: boolean;
+}
+
+type StageStatus = "ran" | "failed" | "up to date" | "skipped" | "would run";
+
+interface StageOutcome {
+  command: string;
+  status: StageStatus;
+  reason: string;
+  result?: CommandResult;
+}
+
+// ─── Stages ─────────────────────────────────────────────────────────────
+
+function requireEnv(...names: string[]): () => string | null {
+  return () => {
+    const missing = names.filter((name) => !loadEnvVar(name));
+    return missing.length > 0 ? `${missing.join(", ")} not set` : null;
+  };
+}
+
+/**
+ * Whether a library folder changed after `sinceMs`. Adding, removing or
+ * renaming a file updates its folder's mtime, so folders are enough.
+ */
+function libraryChangedSince(sinceMs: number): string | null {
+  const root = loadEnvVar("MUSIC_LIBRARY_ROOT");
+  if (!root) return null;
+
+  const pending = [root];
+  while (pending.length > 0) {
+    const dir = pending.pop() as string;
+    let entries: fs.Dirent[];
+    try {
+      if (fs.statSync(dir).mtimeMs > sinceMs) return `${path.relative(root, dir) || root} changed`;
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) pending.push(path.join(dir, entry.name));
+    }
+  }
+  return null;
+}
+
+const STAGES: Stage[] = [
+  {
+    command: "scan",
+    load: () => import("./scanLibrary.js"),
+    unavailable: requireEnv("MUSIC_LIBRARY_ROOT"),
+    inputs: () => [],
+    outputs: [SCAN_CONFIG.HIERARCHY_PATH, SCAN_CONFIG.METADATA_PATH],
+    staleSince: libraryChangedSince,
+  },
+  {
+    command: "parse",
+    load: () => import("./generateMusicData.js"),
+    unavailable: () => null,
+    inputs: () => [
+      SCAN_CONFIG.HIERARCHY_PATH,
+      SCAN_CONFIG.METADATA_PATH,
+      path.relative(ROOT, getLibraryConfigPath()),
+      "data/overrides.json",
+      "data/slugRegistry.json",
+    ],
+    outputs: [MUSIC_DATA_PATH, "public/searchIndex.json"],
+  },
+  {
+    command: "tracks",
+    load: () => import("./readLocalTracks.js"),
+    unavailable: requireEnv("MUSIC_LIBRARY_ROOT"),
+    inputs: () => [MUSIC_DATA_PATH],
+    outputs: [SCAN_CONFIG.TRACK_MANIFEST_PATH],
+  },
+  {
+    command: "art",
+    load: () => import("./processAlbumArt.js"),
+    unavailable: requireEnv("MUSIC_LIBRARY_ROOT"),
+    inputs: () => [MUSIC_DATA_PATH],
+    outputs: [ART_CONFIG.MANIFEST_PATH],
+  },
+  {
+    command: "spotify artists",
+    load: () => import("./spotify/fetchSpotifyArtists.js"),
+    unavailable: requireEnv("SPOTIFY_CLIENT_ID", "SPOTIFY_CLIENT_SECRET"),
+    inputs: () => [MUSIC_DATA_PATH],
+    outputs: [SPOTIFY_CONFIG.MANIFEST_PATH],
+  },
+  {
+    command: "spotify albums",
+    load: () => import("./spotify/fetchSpotifyAlbums.js"),
+    unavailable: requireEnv("SPOTIFY_CLIENT_ID", "SPOTIFY_CLIENT_SECRET"),
+    inputs: () => [MUSIC_DATA_PATH, SPOTIFY_CONFIG.MANIFEST_PATH],
+    outputs: [SPOTIFY_CONFIG.ALBUM_MANIFEST_PATH],
+  },
+  {
+    command: "collages",
+    load: () => import("./buildCollages.js"),
+    unavailable: () => null,
+    // Spotify album matching downloads art too
+    inputs: () => [MUSIC_DATA_PATH, ART_CONFIG.MANIFEST_PATH],
+    outputs: [COLLAGE_CONFIG.MANIFEST_PATH],
+  },
+  {
+    command: "validate",
+    load: () => import("./validateData.js"),
+    unavailable: () => null,
+    inputs: () => [],
+    outputs: [],
+    always: true,
+  },
+];
+
+// ─── Freshness ──────────────────────────────────────────────────────────
+
+function mtimeOf(file: string): number | null {
+  try {
+    return fs.statSync(path.join(ROOT, file)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a manifest is the empty placeholder `pnpm parse` seeds so the site
+ * builds before the stage first runs.
+ */
+function isSeeded(file: string): boolean {
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(ROOT, file), "utf-8"));
+    return data.generatedAt === "";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why a stage needs to run, or null when its outputs are up to date.
+ * `pending` holds outputs of earlier stages that will be rewritten first.
+ */
+function staleReason(stage: Stage, pending: Set<string>): string | null {
+  if (stage.always) return "always runs";
+
+  let oldestOutput = Number.POSITIVE_INFINITY;
+  for (const output of stage.outputs) {
+    const mtime = mtimeOf(output);
+    if (mtime === null) return `${output} missing`;
+    if (isSeeded(output)) return `${output} never generated`;
+    oldestOutput = Math.min(oldestOutput, mtime);
+  }
+
+  for (const input of stage.inputs()) {
+    if (pending.has(input)) return `${input} will change`;
+    const mtime = mtimeOf(input);
+    if (mtime !== null && mtime > oldestOutput) return `${input} changed`;
+  }
+
+  return stage.staleSince?.(oldestOutput) ?? null;
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+/**
+ * `mlb pipeline`: run every stage in order, skipping stages whose outputs are
+ * newer than their inputs and stages the environment cannot run. Stops at the
+ * first stage that fails. With --dry-run only the plan is printed.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
+  const outcomes: StageOutcome[] = [];
+  const pending = new Set<string>();
+  const stageOptions: CommandOptions = { ...options, dryRun: false };
+
+  for (const stage of STAGES) {
+    const unavailable = stage.unavailable();
+    if (unavailable) {
+      outcomes.push({ command: stage.command, status: "skipped", reason: unavailable });
+      console.log(`\n▸ ${stage.command}: skipped (${unavailable})`);
+      continue;
+    }
+
+    const reason = options.force ? "--force" : staleReason(stage, pending);
+    if (!reason) {
+      outcomes.push({
+        command: stage.command,
+        status: "up to date",
+        reason: "outputs are current",
+      });
+      console.log(`\n▸ ${stage.command}: up to date`);
+      continue;
+    }
+
+    if (options.dryRun) {
+      for (const output of stage.outputs) pending.add(output);
+      outcomes.push({ command: stage.command, status: "would run", reason });
+      console.log(`\n▸ ${stage.command}: would run (${reason})`);
+      continue;
+    }
+
+    console.log(`\n▸ ${stage.command} (${reason})\n`);
+    const result = await runCommand(stage.load, stageOptions);
+    outcomes.push({ command: stage.command, status: result.ok ? "ran" : "failed", reason, result });
+    if (!result.ok) {
+      console.error(`\nPipeline stopped: ${stage.command} failed`);
+      return { ok: false, stages: outcomes };
+    }
+  }
+
+  console.log("\n--- Pipeline ---");
+  for (const outcome of outcomes) {
+    console.log(`  ${outcome.command.padEnd(16)} ${outcome.status}`);
+  }
+  return { ok: true, stages: outcomes };
+}
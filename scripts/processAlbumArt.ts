@@ -1,9 +1,23 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { parseFile, selectCover } from "music-metadata";
 import sharp from "sharp";
+import { artFileName, artFileNames } from "../src/lib/albumArtFiles.js";
+import type { ArtManifest, ArtManifestEntry } from "../src/lib/albumArtTypes.js";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
 import { ART_CONFIG } from "./albumArtConfig.js";
-import { loadEnvVar } from "./spotify/spotifyAuth.js";
+import {
+  type CommandOptions,
+  type CommandResult,
+  countEntries,
+  hasSelection,
+  keepUnselected,
+  selectOwners,
+} from "./commandOptions.js";
+import { readGeneratedFile, readPreviousFile } from "./generatedData.js";
+import { getMusicLibraryRoot } from "./libraryRoot.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
 import { forEachArtistAndCompilation } from "./traversal.js";
 import type { MusicLibrary } from "./types.js";
 
@@ -12,37 +26,22 @@ const ROOT = path.join(__dirname, "..");
 
 // ─── Types ──────────────────────────────────────────────────────────────
 
-interface AlbumArtEntry {
+interface AlbumJob {
   artistSlug: string;
   albumSlug: string;
-  sourceFile: string;
-}
-
-interface ArtManifest {
-  generatedAt: string;
-  musicLibraryRoot: string;
-  totalAlbums: number;
-  albumsWithArt: number;
-  albumsWithoutArt: number;
-  entries: Record<string, Record<string, AlbumArtEntry>>;
+  fsPath: string;
 }
 
-interface AlbumJob {
-  artistSlug: string;
-  albumSlug: string;
+interface CoverSource {
+  source: "file" | "embedded";
+  /** The image file, or the audio file whose tags hold the picture */
   fsPath: string;
+  /** Recorded in the manifest: relative to the album folder */
+  sourceFile: string;
 }
 
 // ─── Helpers ────────────────────────────────────────────────────────────
 
-function getMusicLibraryRoot(): string {
-  const root = loadEnvVar("MUSIC_LIBRARY_ROOT");
-  if (root) return root;
-
-  console.error("MUSIC_LIBRARY_ROOT not set. Set it in .env or as environment variable.");
-  process.exit(1);
-}
-
 function findCoverImage(albumPath: string): string | null {
   let files: string[];
   try {
@@ -77,51 +76,197 @@ function findCoverImage(albumPath: string): string | null {
   return allImages.length > 0 ? path.join(albumPath, allImages[0]) : null;
 }
 
-async function processImage(
-  sourcePath: string,
+/**
+ * First audio file of an album by name, looking in disc subfolders when the
+ * album folder itself has none. Returns its path relative to the album folder.
+ */
+function findFirstAudioFile(albumPath: string, relativeDir = ""): string | null {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(albumPath, relativeDir), { withFileTypes: true });
+  } catch {
+    return null;
+  }
+
+  const visible = entries
+    .filter((entry) => !entry.name.startsWith("."))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const audio = visible.find(
+    (entry) =>
+      entry.isFile() &&
+      SCAN_CONFIG.AUDIO_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()),
+  );
+  if (audio) return path.join(relativeDir, audio.name);
+
+  for (const entry of visible) {
+    if (!entry.isDirectory()) continue;
+    const found = findFirstAudioFile(albumPath, path.join(relativeDir, entry.name));
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Where to take an album's art from: an image file in its folder, otherwise
+ * the picture embedded in its first audio file (which may turn out to have none).
+ */
+function findCover(albumPath: string): CoverSource | null {
+  const imagePath = findCoverImage(albumPath);
+  if (imagePath) {
+    return { source: "file", fsPath: imagePath, sourceFile: path.basename(imagePath) };
+  }
+
+  const audioFile = findFirstAudioFile(albumPath);
+  if (!audioFile) return null;
+  return { source: "embedded", fsPath: path.join(albumPath, audioFile), sourceFile: audioFile };
+}
+
+/** The front cover (APIC, FLAC PICTURE, ...) in an audio file's tags, if any */
+async function readEmbeddedCover(audioPath: string): Promise<Buffer | null> {
+  try {
+    const { common } = await parseFile(audioPath, { duration: false, skipPostHeaders: true });
+    const picture = selectCover(common.picture);
+    return picture ? Buffer.from(picture.data) : null;
+  } catch (err) {
+    console.warn(`  Could not read tags from ${audioPath}: ${err}`);
+    return null;
+  }
+}
+
+// ─── Renditions ─────────────────────────────────────────────────────────
+
+/** The sizes and formats written for one album, with its placeholder and colour */
+export type ArtRenditions = Pick<ArtManifestEntry, "sizes" | "formats" | "placeholder" | "color">;
+
+/**
+ * Widths to render for art whose longest side is `longestSide`: every
+ * configured size below it, then the first size it reaches (or its own size,
+ * as art is never upscaled). A 600px cover gives 96, 200, 500 and 600.
+ */
+function outputSizes(longestSide: number): number[] {
+  const largest = ART_CONFIG.SIZES[ART_CONFIG.SIZES.length - 1];
+  const sizes = ART_CONFIG.SIZES.filter((size) => size < longestSide);
+  return longestSide <= largest ? [...sizes, longestSide] : sizes;
+}
+
+function toHex(channel: number): string {
+  return channel.toString(16).padStart(2, "0");
+}
+
+/**
+ * What pages paint before the art loads: a tiny WebP inlined as a data URI,
+ * and the dominant colour (also used to tint the album page).
+ */
+async function describeArt(
+  image: sharp.Sharp,
+): Promise<Pick<ArtRenditions, "placeholder" | "color">> {
+  const tiny = await image
+    .clone()
+    .resize(ART_CONFIG.PLACEHOLDER_SIZE, ART_CONFIG.PLACEHOLDER_SIZE, { fit: "inside" })
+    .webp({ quality: ART_CONFIG.PLACEHOLDER_QUALITY })
+    .toBuffer();
+  const { dominant } = await image.stats();
+
+  return {
+    placeholder: `data:image/webp;base64,${tiny.toString("base64")}`,
+    color: `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`,
+  };
+}
+
+/**
+ * Write every size and format of an album's art into `outputDir`, replacing
+ * the single WebP of older runs. Returns null for images without dimensions.
+ */
+export async function writeArtRenditions(
+  source: string | Buffer,
   outputDir: string,
   albumSlug: string,
-): Promise<boolean> {
-  const outPath = path.join(outputDir, `${albumSlug}.webp`);
+): Promise<ArtRenditions | null> {
+  const image = sharp(source);
+  const { width, height } = await image.metadata();
+  if (!width || !height) return null;
 
-  // Idempotency: skip if output exists and is newer than source
-  try {
-    const sourceStats = fs.statSync(sourcePath);
-    if (fs.existsSync(outPath)) {
-      const outStats = fs.statSync(outPath);
-      if (outStats.mtimeMs > sourceStats.mtimeMs) {
-        return true;
-      }
+  fs.mkdirSync(outputDir, { recursive: true });
+  const sizes = outputSizes(Math.max(width, height));
+  const formats = ART_CONFIG.FORMATS;
+
+  await Promise.all(
+    sizes.flatMap((size) =>
+      formats.map((format) => {
+        const resized = image
+          .clone()
+          .resize(size, size, { fit: "inside", withoutEnlargement: true });
+        const encoded =
+          format === "avif"
+            ? resized.avif({ quality: ART_CONFIG.AVIF_QUALITY, effort: ART_CONFIG.AVIF_EFFORT })
+            : resized.webp({ quality: ART_CONFIG.WEBP_QUALITY });
+        return encoded.toFile(path.join(outputDir, artFileName(albumSlug, size, format)));
+      }),
+    ),
+  );
+
+  fs.rmSync(path.join(outputDir, artFileName(albumSlug, null, "webp")), { force: true });
+  return { sizes, formats, ...(await describeArt(image)) };
+}
+
+/**
+ * Whether a previous run's renditions are all on disk, newer than the source
+ * and match the configured sizes and formats, and it recorded a placeholder.
+ */
+function isCurrent(previous: ArtManifestEntry, outputDir: string, sourceMtimeMs: number): boolean {
+  if (previous.sizes.length === 0 || !previous.placeholder) return false;
+  const expected = outputSizes(Math.max(...previous.sizes));
+  if (expected.join() !== previous.sizes.join()) return false;
+  if (ART_CONFIG.FORMATS.join() !== previous.formats.join()) return false;
+
+  return artFileNames(previous).every((file) => {
+    try {
+      return fs.statSync(path.join(outputDir, file)).mtimeMs > sourceMtimeMs;
+    } catch {
+      return false;
     }
+  });
+}
+
+async function processImage(
+  cover: CoverSource,
+  outputDir: string,
+  albumSlug: string,
+  previous: ArtManifestEntry | undefined,
+): Promise<ArtRenditions | null> {
+  // Idempotency: skip if every rendition exists and is newer than the source
+  let sourceMtimeMs: number;
+  try {
+    sourceMtimeMs = fs.statSync(cover.fsPath).mtimeMs;
   } catch {
-    return false;
+    return null;
+  }
+  if (
+    previous?.source === cover.source &&
+    previous.sourceFile === cover.sourceFile &&
+    isCurrent(previous, outputDir, sourceMtimeMs)
+  ) {
+    const { sizes, formats, placeholder, color } = previous;
+    return { sizes, formats, placeholder, color };
   }
 
-  fs.mkdirSync(outputDir, { recursive: true });
+  const image = cover.source === "embedded" ? await readEmbeddedCover(cover.fsPath) : cover.fsPath;
+  if (!image) return null;
 
-  const metadata = await sharp(sourcePath).metadata();
+  const metadata = await sharp(image).metadata();
   if (!metadata.width || !metadata.height) {
-    return false;
+    return null;
   }
 
   if (
     metadata.width > ART_CONFIG.MAX_SOURCE_DIMENSION ||
     metadata.height > ART_CONFIG.MAX_SOURCE_DIMENSION
   ) {
-    console.warn(`  SKIP (too large ${metadata.width}x${metadata.height}): ${sourcePath}`);
-    return false;
+    console.warn(`  SKIP (too large ${metadata.width}x${metadata.height}): ${cover.fsPath}`);
+    return null;
   }
 
-  // Generate single image (500x500, fit inside, preserve aspect ratio)
-  await sharp(sourcePath)
-    .resize(ART_CONFIG.IMAGE_SIZE, ART_CONFIG.IMAGE_SIZE, {
-      fit: "inside",
-      withoutEnlargement: true,
-    })
-    .webp({ quality: ART_CONFIG.WEBP_QUALITY })
-    .toFile(outPath);
-
-  return true;
+  return writeArtRenditions(image, outputDir, albumSlug);
 }
 
 // ─── Job collection ─────────────────────────────────────────────────────
@@ -132,22 +277,20 @@ function collectJobs(musicData: MusicLibrary, musicRoot: string): AlbumJob[] {
   forEachArtistAndCompilation(
     musicData,
     (artist) => {
-      const artistPath = path.join(musicRoot, ...artist.genrePath, artist.rawFolderName);
       for (const album of artist.albums) {
         jobs.push({
           artistSlug: artist.slug,
           albumSlug: album.slug,
-          fsPath: path.join(artistPath, album.rawFolderName),
+          fsPath: path.join(musicRoot, ...album.folderPath),
         });
       }
     },
     (comp) => {
-      const compPath = path.join(musicRoot, ...comp.genrePath, comp.rawFolderName);
       for (const album of comp.albums) {
         jobs.push({
           artistSlug: comp.slug,
           albumSlug: album.slug,
-          fsPath: path.join(compPath, album.rawFolderName),
+          fsPath: path.join(musicRoot, ...album.folderPath),
         });
       }
     },
@@ -158,37 +301,63 @@ function collectJobs(musicData: MusicLibrary, musicRoot: string): AlbumJob[] {
 
 // ─── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+/**
+ * `mlb art`: resize each album's cover into public/ and write the art manifest.
+ * Albums without an image file use the picture embedded in their first audio
+ * file. With --only or --genre, other albums keep their previous entries.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
   const musicRoot = getMusicLibraryRoot();
-  console.log(`Music library root: ${musicRoot}`);
-
-  if (!fs.existsSync(musicRoot)) {
-    console.error(`Music library root not found: ${musicRoot}`);
-    process.exit(1);
-  }
+  if (!musicRoot) return { ok: false, error: "Music library root not found" };
 
   const musicDataPath = path.join(ROOT, "data", "generated", "musicData.json");
   if (!fs.existsSync(musicDataPath)) {
     console.error("musicData.json not found. Run 'pnpm parse' first.");
-    process.exit(1);
+    return { ok: false, error: "musicData.json not found" };
   }
 
-  const musicData: MusicLibrary = JSON.parse(fs.readFileSync(musicDataPath, "utf-8"));
-  const jobs = collectJobs(musicData, musicRoot);
+  const musicData = readGeneratedFile<MusicLibrary>(musicDataPath, "musicData");
+  const allJobs = collectJobs(musicData, musicRoot);
+  const selected = selectOwners(options, musicData);
+  const jobs = allJobs.filter((job) => selected.has(job.artistSlug));
   console.log(`Found ${jobs.length} albums to scan for art.\n`);
 
+  if (options.dryRun) {
+    let withCover = 0;
+    let embedded = 0;
+    for (const job of jobs) {
+      const cover = findCover(job.fsPath);
+      if (cover?.source === "file") {
+        withCover++;
+      } else if (cover && (await readEmbeddedCover(cover.fsPath))) {
+        withCover++;
+        embedded++;
+      }
+    }
+    console.log(
+      `Dry run: ${withCover}/${jobs.length} albums have a cover (${embedded} embedded), nothing written`,
+    );
+    return { ok: true, albums: jobs.length, withCover, embedded };
+  }
+
+  const manifestPath = path.join(ROOT, ART_CONFIG.MANIFEST_PATH);
+  const previous = readPreviousFile<ArtManifest>(manifestPath, "albumArtManifest");
   const manifest: ArtManifest = {
+    schemaVersion: SCHEMA_VERSIONS.albumArtManifest,
     generatedAt: new Date().toISOString(),
     musicLibraryRoot: musicRoot,
-    totalAlbums: jobs.length,
+    totalAlbums: allJobs.length,
     albumsWithArt: 0,
     albumsWithoutArt: 0,
-    entries: {},
+    entries: hasSelection(options)
+      ? keepUnselected(previous?.entries, selected, new Set(allJobs.map((job) => job.artistSlug)))
+      : {},
   };
 
   const outputBase = path.join(ROOT, ART_CONFIG.OUTPUT_DIR);
   let processed = 0;
   let found = 0;
+  let embedded = 0;
   let errors = 0;
 
   for (let i = 0; i < jobs.length; i += ART_CONFIG.CONCURRENCY) {
@@ -196,27 +365,35 @@ async function main() {
     await Promise.all(
       batch.map(async (job) => {
         processed++;
-        const coverPath = findCoverImage(job.fsPath);
-        if (!coverPath) return;
+        const cover = findCover(job.fsPath);
+        if (!cover) return;
 
         const artistOutputDir = path.join(outputBase, job.artistSlug);
 
         try {
-          const ok = await processImage(coverPath, artistOutputDir, job.albumSlug);
-          if (ok) {
+          const renditions = await processImage(
+            cover,
+            artistOutputDir,
+            job.albumSlug,
+            previous?.entries[job.artistSlug]?.[job.albumSlug],
+          );
+          if (renditions) {
             found++;
+            if (cover.source === "embedded") embedded++;
             if (!manifest.entries[job.artistSlug]) {
               manifest.entries[job.artistSlug] = {};
             }
             manifest.entries[job.artistSlug][job.albumSlug] = {
               artistSlug: job.artistSlug,
               albumSlug: job.albumSlug,
-              sourceFile: path.basename(coverPath),
+              source: cover.source,
+              sourceFile: cover.sourceFile,
+              ...renditions,
             };
           }
         } catch (err) {
           errors++;
-          console.warn(`  ERROR processing ${coverPath}: ${err}`);
+          console.warn(`  ERROR processing ${cover.fsPath}: ${err}`);
         }
       }),
     );
@@ -226,20 +403,16 @@ async function main() {
     }
   }
 
-  manifest.albumsWithArt = found;
-  manifest.albumsWithoutArt = jobs.length - found;
+  manifest.albumsWithArt = countEntries(manifest.entries);
+  manifest.albumsWithoutArt = allJobs.length - manifest.albumsWithArt;
 
-  const manifestPath = path.join(ROOT, ART_CONFIG.MANIFEST_PATH);
   fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
 
   console.log(`\nDone!`);
-  console.log(`Albums with art: ${found}/${jobs.length}`);
+  console.log(`Albums with art: ${found}/${jobs.length} (${embedded} from embedded pictures)`);
   console.log(`Albums without art: ${jobs.length - found}`);
   if (errors > 0) console.log(`Errors: ${errors}`);
   console.log(`Manifest: ${manifestPath}`);
-}
 
-main().catch((err) => {
-  console.error("Fatal error:", err);
-  process.exit(1);
-});
+  return { ok: true, albums: jobs.length, withArt: found, embedded, errors };
+}
@@ -0,0 +1,271 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseFile } from "music-metadata";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import type {
+  LocalTrack,
+  LocalTrackEntry,
+  LocalTrackManifest,
+} from "../src/lib/localTrackTypes.js";
+import {
+  type CommandOptions,
+  type CommandResult,
+  countEntries,
+  hasSelection,
+  keepUnselected,
+  selectOwners,
+} from "./commandOptions.js";
+import { readGeneratedFile, readPreviousFile } from "./generatedData.js";
+import { getMusicLibraryRoot } from "./libraryRoot.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
+import { forEachArtistAndCompilation } from "./traversal.js";
+import type { MusicLibrary } from "./types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+// ─── Types ──────────────────────────────────────────────────────────────
+
+interface AlbumJob {
+  artistSlug: string;
+  albumSlug: string;
+  fsPath: string;
+}
+
+interface AudioFile {
+  fsPath: string;
+  /** Path relative to the album folder, e.g. "CD2/01 - Intro.flac" */
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+/**
+ * List audio files in an album folder, including disc subfolders.
+ */
+function listAudioFiles(albumPath: string, relativeDir = ""): AudioFile[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(albumPath, relativeDir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: AudioFile[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const relativePath = relativeDir ? path.join(relativeDir, entry.name) : entry.name;
+
+    if (entry.isDirectory()) {
+      files.push(...listAudioFiles(albumPath, relativePath));
+    } else if (SCAN_CONFIG.AUDIO_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      const fsPath = path.join(albumPath, relativePath);
+      try {
+        const { size, mtimeMs } = fs.statSync(fsPath);
+        files.push({ fsPath, relativePath, size, mtimeMs });
+      } catch {
+        // Unreadable file — skip
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Derive a disc number from the folder a file lives in ("CD2", "Disc 3").
+ */
+function discFromFolder(relativePath: string): number | null {
+  const folder = path.dirname(relativePath);
+  if (folder === ".") return null;
+  const match = path.basename(folder).match(/^(?:CD|Disc|Disk)\s?(\d+)/i);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
+
+async function readTrack(file: AudioFile): Promise<LocalTrack> {
+  const fileName = path.basename(file.relativePath);
+  const fallbackTitle = path.basename(fileName, path.extname(fileName));
+
+  try {
+    const { common, format } = await parseFile(file.fsPath, { skipCovers: true });
+    return {
+      title: common.title?.trim() || fallbackTitle,
+      trackNumber: common.track.no ?? null,
+      discNumber: common.disk.no ?? discFromFolder(file.relativePath),
+      durationMs: format.duration ? Math.round(format.duration * 1000) : null,
+      bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : null,
+      codec: format.codec ?? format.container ?? null,
+      fileName: file.relativePath,
+      size: file.size,
+      mtimeMs: file.mtimeMs,
+    };
+  } catch (err) {
+    console.warn(`  Could not read tags from ${file.fsPath}: ${err}`);
+    return {
+      title: fallbackTitle,
+      trackNumber: null,
+      discNumber: discFromFolder(file.relativePath),
+      durationMs: null,
+      bitrate: null,
+      codec: null,
+      fileName: file.relativePath,
+      size: file.size,
+      mtimeMs: file.mtimeMs,
+    };
+  }
+}
+
+/**
+ * Whether a previous entry was read from exactly these files, none of them
+ * changed since. Each file is compared, so a replaced file is noticed even
+ * when it kept an older mtime.
+ */
+function isUnchanged(entry: LocalTrackEntry, files: AudioFile[]): boolean {
+  if (entry.tracks.length !== files.length) return false;
+  const tracks = new Map(entry.tracks.map((track) => [track.fileName, track]));
+  return files.every((file) => {
+    const track = tracks.get(file.relativePath);
+    return track?.size === file.size && track.mtimeMs === file.mtimeMs;
+  });
+}
+
+function compareTracks(a: LocalTrack, b: LocalTrack): number {
+  return (
+    (a.discNumber ?? 1) - (b.discNumber ?? 1) ||
+    (a.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.trackNumber ?? Number.MAX_SAFE_INTEGER) ||
+    a.fileName.localeCompare(b.fileName)
+  );
+}
+
+// ─── Job collection ─────────────────────────────────────────────────────
+
+function collectJobs(musicData: MusicLibrary, musicRoot: string): AlbumJob[] {
+  const jobs: AlbumJob[] = [];
+
+  forEachArtistAndCompilation(
+    musicData,
+    (artist) => {
+      for (const album of artist.albums) {
+        jobs.push({
+          artistSlug: artist.slug,
+          albumSlug: album.slug,
+          fsPath: path.join(musicRoot, ...album.folderPath),
+        });
+      }
+    },
+    (comp) => {
+      for (const album of comp.albums) {
+        jobs.push({
+          artistSlug: comp.slug,
+          albumSlug: album.slug,
+          fsPath: path.join(musicRoot, ...album.folderPath),
+        });
+      }
+    },
+  );
+
+  return jobs;
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+/**
+ * `mlb tracks`: read track tags of every album into the local track manifest.
+ * With --only or --genre, other albums keep their previous entries.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
+  const musicRoot = getMusicLibraryRoot();
+  if (!musicRoot) return { ok: false, error: "Music library root not found" };
+
+  const musicDataPath = path.join(ROOT, "data", "generated", "musicData.json");
+  if (!fs.existsSync(musicDataPath)) {
+    console.error("musicData.json not found. Run 'pnpm parse' first.");
+    return { ok: false, error: "musicData.json not found" };
+  }
+
+  const musicData = readGeneratedFile<MusicLibrary>(musicDataPath, "musicData");
+  const allJobs = collectJobs(musicData, musicRoot);
+  const selected = selectOwners(options, musicData);
+  const jobs = allJobs.filter((job) => selected.has(job.artistSlug));
+  console.log(`Found ${jobs.length} albums to scan for tracks.\n`);
+
+  if (options.dryRun) {
+    console.log("Dry run: no tags read, manifest not written");
+    return { ok: true, albums: jobs.length };
+  }
+
+  // Load existing manifest so unchanged albums are not re-read
+  const manifestPath = path.join(ROOT, SCAN_CONFIG.TRACK_MANIFEST_PATH);
+  const previous = readPreviousFile<LocalTrackManifest>(manifestPath, "localTrackManifest");
+
+  const manifest: LocalTrackManifest = {
+    schemaVersion: SCHEMA_VERSIONS.localTrackManifest,
+    generatedAt: new Date().toISOString(),
+    musicLibraryRoot: musicRoot,
+    totalAlbums: allJobs.length,
+    albumsWithTracks: 0,
+    entries: hasSelection(options)
+      ? keepUnselected(previous?.entries, selected, new Set(allJobs.map((job) => job.artistSlug)))
+      : {},
+  };
+
+  let processed = 0;
+  let read = 0;
+  let reused = 0;
+  let withTracks = 0;
+
+  for (let i = 0; i < jobs.length; i += SCAN_CONFIG.TAG_CONCURRENCY) {
+    const batch = jobs.slice(i, i + SCAN_CONFIG.TAG_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (job) => {
+        processed++;
+        const files = listAudioFiles(job.fsPath);
+        if (files.length === 0) return;
+
+        let entry: LocalTrackEntry | undefined;
+        const cached = previous?.entries[job.artistSlug]?.[job.albumSlug];
+
+        if (cached && isUnchanged(cached, files)) {
+          entry = cached;
+          reused++;
+        } else {
+          const tracks: LocalTrack[] = [];
+          for (const file of files) {
+            tracks.push(await readTrack(file));
+          }
+          entry = {
+            artistSlug: job.artistSlug,
+            albumSlug: job.albumSlug,
+            tracks: tracks.sort(compareTracks),
+            scannedAt: new Date().toISOString(),
+          };
+          read++;
+        }
+
+        if (!manifest.entries[job.artistSlug]) {
+          manifest.entries[job.artistSlug] = {};
+        }
+        manifest.entries[job.artistSlug][job.albumSlug] = entry;
+        withTracks++;
+      }),
+    );
+
+    if (processed % 500 === 0 || processed === jobs.length) {
+      console.log(`  Progress: ${processed}/${jobs.length} scanned, ${withTracks} with tracks`);
+    }
+  }
+
+  manifest.albumsWithTracks = countEntries(manifest.entries);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  console.log(`\nDone!`);
+  console.log(`Albums with tracks: ${manifest.albumsWithTracks}/${allJobs.length}`);
+  console.log(`Tags read: ${read} albums (${reused} unchanged, reused from previous run)`);
+  console.log(`Manifest: ${manifestPath}`);
+
+  return { ok: true, albums: jobs.length, read, reused };
+}
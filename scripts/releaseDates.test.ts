@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  compareReleaseDates,
+  exactYear,
+  leadingReleaseDate,
+  parseReleaseDate,
+  sameReleaseDate,
+  splitReleaseDate,
+} from "./releaseDates.js";
+
+describe("parseReleaseDate", () => {
+  it("parses years, full dates, ranges and decades", () => {
+    assert.deepEqual(parseReleaseDate("2004"), { year: 2004 });
+    assert.deepEqual(parseReleaseDate("2004-05"), { year: 2004, month: 5 });
+    assert.deepEqual(parseReleaseDate("2004-05-12"), { year: 2004, month: 5, day: 12 });
+    assert.deepEqual(parseReleaseDate("1967 - 1970"), { year: 1967, endYear: 1970 });
+    assert.deepEqual(parseReleaseDate("199x"), { year: 1990, uncertain: true });
+    assert.deepEqual(parseReleaseDate("199?"), { year: 1990, uncertain: true });
+  });
+
+  it("reads the recording year after the release date", () => {
+    assert.deepEqual(parseReleaseDate("2004, rec. 1998"), { year: 2004, recordedYear: 1998 });
+    assert.deepEqual(parseReleaseDate("2004, recorded 1998"), { year: 2004, recordedYear: 1998 });
+  });
+
+  it("keeps a backwards range as its first year", () => {
+    assert.deepEqual(parseReleaseDate("1995-1990"), { year: 1995 });
+  });
+
+  it("rejects catalog numbers and impossible dates", () => {
+    assert.equal(parseReleaseDate("01"), null);
+    assert.equal(parseReleaseDate("2004-13"), null);
+    assert.equal(parseReleaseDate("2004-05-32"), null);
+    assert.equal(parseReleaseDate("Live"), null);
+  });
+});
+
+describe("leadingReleaseDate", () => {
+  it("reads only a marker at the start of the name", () => {
+    assert.deepEqual(leadingReleaseDate("[1986] Epicus Doomicus Metallicus"), { year: 1986 });
+    assert.deepEqual(leadingReleaseDate("[1979-1984] - Demos"), { year: 1979, endYear: 1984 });
+    assert.equal(leadingReleaseDate("Epicus Doomicus Metallicus [1986]"), null);
+  });
+});
+
+describe("splitReleaseDate", () => {
+  it("removes a date marker from the name", () => {
+    assert.deepEqual(splitReleaseDate("[2004-05-12] - Live in Oslo"), {
+      date: { year: 2004, month: 5, day: 12 },
+      rest: "Live in Oslo",
+    });
+  });
+
+  it("leaves a plain year in the name for the name cleanup", () => {
+    assert.deepEqual(splitReleaseDate("[1986] Epicus"), {
+      date: { year: 1986 },
+      rest: "[1986] Epicus",
+    });
+  });
+
+  it("finds a year after a catalog number", () => {
+    assert.deepEqual(splitReleaseDate("8BP003 [1999] Title"), {
+      date: { year: 1999 },
+      rest: "8BP003 [1999] Title",
+    });
+  });
+
+  it("returns no date for a name without one", () => {
+    assert.deepEqual(splitReleaseDate("[01] Title"), { date: null, rest: "[01] Title" });
+  });
+});
+
+describe("exactYear", () => {
+  it("drops approximate years", () => {
+    assert.equal(exactYear({ year: 2004, month: 5 }), 2004);
+    assert.equal(exactYear({ year: 1990, uncertain: true }), null);
+    assert.equal(exactYear(null), null);
+  });
+});
+
+describe("compareReleaseDates", () => {
+  it("orders by year, month and day with undated releases last", () => {
+    const dates = [
+      null,
+      { year: 2004, month: 5, day: 12 },
+      { year: 2004 },
+      { year: 1998 },
+      { year: 2004, month: 5, day: 1 },
+    ];
+    assert.deepEqual(dates.sort(compareReleaseDates), [
+      { year: 1998 },
+      { year: 2004 },
+      { year: 2004, month: 5, day: 1 },
+      { year: 2004, month: 5, day: 12 },
+      null,
+    ]);
+  });
+});
+
+describe("sameReleaseDate", () => {
+  it("also compares the end of a range", () => {
+    assert.equal(sameReleaseDate({ year: 2004 }, { year: 2004 }), true);
+    assert.equal(sameReleaseDate(null, null), true);
+    assert.equal(sameReleaseDate({ year: 1990, endYear: 1995 }, { year: 1990 }), false);
+    assert.equal(sameReleaseDate({ year: 2004 }, null), false);
+  });
+});
@@ -0,0 +1,107 @@
+import type { ReleaseDate } from "./types.js";
+
+/** Date marker at the start of a release folder name, e.g. "[2004-05-12] " or "[1979-1984] - " */
+const DATE_PREFIX = /^\[([^\]]+)\]\s*(?:-\s+)?/;
+const PLAIN_NUMBER = /^\d+$/;
+/** A year anywhere in the name, e.g. "8BP003 [1999] Title" */
+const INNER_YEAR = /\[(\d{4})\]/;
+
+/** "2004", also with stray spaces ("[1982 ]") */
+const YEAR = /^(\d{4})$/;
+/** "2004-05" or "2004-05-12" */
+const FULL_DATE = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
+/** "1990-1995", "1967 - 1970" */
+const YEAR_RANGE = /^(\d{4})\s*-\s*(\d{4})$/;
+/** "199x", "199?" */
+const DECADE = /^(\d{3})[x?]$/i;
+/** "rec. 1998", "recorded 1998" */
+const RECORDED = /^rec(?:orded)?\.?\s*(\d{4})$/i;
+
+function parseMainDate(text: string): ReleaseDate | null {
+  const year = text.match(YEAR);
+  if (year) return { year: Number(year[1]) };
+
+  const full = text.match(FULL_DATE);
+  if (full) {
+    const month = Number(full[2]);
+    const day = full[3] ? Number(full[3]) : undefined;
+    if (month < 1 || month > 12 || (day !== undefined && (day < 1 || day > 31))) return null;
+    return { year: Number(full[1]), month, ...(day && { day }) };
+  }
+
+  const range = text.match(YEAR_RANGE);
+  if (range) {
+    const [start, end] = [Number(range[1]), Number(range[2])];
+    if (end <= start) return { year: start };
+    return { year: start, endYear: end };
+  }
+
+  const decade = text.match(DECADE);
+  if (decade) return { year: Number(decade[1]) * 10, uncertain: true };
+
+  return null;
+}
+
+/**
+ * Parse the text of a date marker, e.g. "2004-05-12", "1990-1995", "199x" or
+ * "2004, rec. 1998". Returns null when it is not a date (e.g. a catalog number
+ * such as "01").
+ */
+export function parseReleaseDate(text: string): ReleaseDate | null {
+  const [main, ...notes] = text.split(",").map((part) => part.trim());
+  const date = parseMainDate(main);
+  if (!date) return null;
+
+  for (const note of notes) {
+    const recorded = note.match(RECORDED);
+    if (recorded) date.recordedYear = Number(recorded[1]);
+  }
+  return date;
+}
+
+/**
+ * Date from the marker at the start of a release folder name, or null when the
+ * name has no date prefix.
+ */
+export function leadingReleaseDate(folderName: string): ReleaseDate | null {
+  const match = folderName.match(DATE_PREFIX);
+  return match ? parseReleaseDate(match[1]) : null;
+}
+
+/**
+ * Split a release folder name into its date and the rest of the name. A plain
+ * "[YYYY]" stays in the name, as releaseNameCleanup removes it with other
+ * bracketed numbers; so does a "[YYYY]" after a catalog number ("8BP003 [1999]").
+ */
+export function splitReleaseDate(folderName: string): { date: ReleaseDate | null; rest: string } {
+  const match = folderName.match(DATE_PREFIX);
+  const date = match ? parseReleaseDate(match[1]) : null;
+  if (match && date) {
+    const rest = PLAIN_NUMBER.test(match[1]) ? folderName : folderName.slice(match[0].length);
+    return { date, rest };
+  }
+
+  const year = folderName.match(INNER_YEAR);
+  return { date: year ? { year: Number(year[1]) } : null, rest: folderName };
+}
+
+/**
+ * The exact release year of a date, or null when unknown or only approximate
+ * (kept in `Album.year` for slugs, search and edition labels).
+ */
+export function exactYear(date: ReleaseDate | null): number | null {
+  return date && !date.uncertain ? date.year : null;
+}
+
+/**
+ * Order releases by date, oldest first; undated releases go last.
+ */
+export function compareReleaseDates(a: ReleaseDate | null, b: ReleaseDate | null): number {
+  if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+  return a.year - b.year || (a.month ?? 0) - (b.month ?? 0) || (a.day ?? 0) - (b.day ?? 0);
+}
+
+/** Whether two dates are the same release date (copies of one album share it) */
+export function sameReleaseDate(a: ReleaseDate | null, b: ReleaseDate | null): boolean {
+  return compareReleaseDates(a, b) === 0 && a?.endYear === b?.endYear;
+}
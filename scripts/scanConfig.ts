@@ -0,0 +1,32 @@
+export const SCAN_CONFIG = {
+  // Audio file extensions counted towards an album (case-insensitive)
+  AUDIO_EXTENSIONS: [
+    ".mp3",
+    ".flac",
+    ".ogg",
+    ".opus",
+    ".m4a",
+    ".aac",
+    ".wav",
+    ".wma",
+    ".ape",
+    ".wv",
+    ".alac",
+    ".aiff",
+  ],
+
+  // Audio file extensions that mark a lossless copy of an album
+  LOSSLESS_EXTENSIONS: [".flac", ".ape", ".wv", ".alac", ".wav", ".aiff"],
+
+  // Image file extensions recorded per folder (case-insensitive)
+  IMAGE_EXTENSIONS: [".jpg", ".jpeg", ".png", ".webp", ".gif", ".bmp"],
+
+  // Output files (relative to project root)
+  HIERARCHY_PATH: "data/folderHierarchy.json",
+  METADATA_PATH: "data/generated/folderMetadata.json",
+  REPORT_PATH: "data/generated/scanReport.json",
+  TRACK_MANIFEST_PATH: "data/generated/localTrackManifest.json",
+
+  // Concurrency for reading audio tags
+  TAG_CONCURRENCY: 8,
+};
@@ -0,0 +1,274 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import type { CommandOptions, CommandResult } from "./commandOptions.js";
+import { readGeneratedFile } from "./generatedData.js";
+import { getMusicLibraryRoot } from "./libraryRoot.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
+import { folderKey } from "./traversal.js";
+import type { FolderMetadata, FolderNode, FolderStats, ScanError, ScanReport } from "./types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+function toScanError(fsPath: string, err: unknown): ScanError {
+  const error = err as NodeJS.ErrnoException;
+  return {
+    path: fsPath,
+    code: error.code ?? "UNKNOWN",
+    message: error.message ?? String(err),
+  };
+}
+
+// ─── Scanner ────────────────────────────────────────────────────────────
+
+interface ScanState {
+  ignored: Set<string>;
+  folders: Record<string, FolderStats>;
+  errors: ScanError[];
+  foldersScanned: number;
+  filesScanned: number;
+}
+
+/**
+ * Recursively scan a directory, returning its folder hierarchy and recording
+ * per-folder file statistics in `state.folders` (keyed by path below the root).
+ * Unreadable folders are kept as empty nodes and reported in `state.errors`.
+ */
+function scanFolder(fsPath: string, segments: string[], state: ScanState): FolderNode {
+  const node: FolderNode = {};
+  state.foldersScanned++;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(fsPath, { withFileTypes: true });
+  } catch (err) {
+    state.errors.push(toScanError(fsPath, err));
+    return node;
+  }
+
+  const stats: FolderStats = {
+    audioFileCount: 0,
+    totalBytes: 0,
+    extensions: [],
+    imageFiles: [],
+    newestMtime: null,
+  };
+  const extensions = new Set<string>();
+  let newestMtimeMs = 0;
+
+  const sorted = entries
+    .filter((entry) => !entry.name.startsWith("."))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of sorted) {
+    const entryPath = path.join(fsPath, entry.name);
+
+    if (entry.isDirectory()) {
+      if (state.ignored.has(entry.name)) continue;
+      node[entry.name] = scanFolder(entryPath, [...segments, entry.name], state);
+      continue;
+    }
+
+    if (!entry.isFile()) continue;
+
+    state.filesScanned++;
+    const ext = path.extname(entry.name).toLowerCase();
+
+    let fileStats: fs.Stats;
+    try {
+      fileStats = fs.statSync(entryPath);
+    } catch (err) {
+      state.errors.push(toScanError(entryPath, err));
+      continue;
+    }
+
+    stats.totalBytes += fileStats.size;
+    newestMtimeMs = Math.max(newestMtimeMs, fileStats.mtimeMs);
+    if (ext) extensions.add(ext);
+
+    if (SCAN_CONFIG.AUDIO_EXTENSIONS.includes(ext)) {
+      stats.audioFileCount++;
+    } else if (SCAN_CONFIG.IMAGE_EXTENSIONS.includes(ext)) {
+      stats.imageFiles.push(entry.name);
+    }
+  }
+
+  // Only folders that actually contain files get a metadata entry
+  if (stats.totalBytes > 0 || extensions.size > 0) {
+    stats.extensions = [...extensions].sort();
+    stats.newestMtime = newestMtimeMs > 0 ? new Date(newestMtimeMs).toISOString() : null;
+    state.folders[folderKey(segments)] = stats;
+  }
+
+  return node;
+}
+
+// ─── Partial rescan ─────────────────────────────────────────────────────
+
+interface PreviousScan {
+  hierarchy: FolderNode;
+  folders: Record<string, FolderStats>;
+}
+
+function loadPreviousScan(rootName: string): PreviousScan | null {
+  const hierarchyPath = path.join(ROOT, SCAN_CONFIG.HIERARCHY_PATH);
+  const metadataPath = path.join(ROOT, SCAN_CONFIG.METADATA_PATH);
+  if (!fs.existsSync(hierarchyPath) || !fs.existsSync(metadataPath)) return null;
+
+  const hierarchy = JSON.parse(fs.readFileSync(hierarchyPath, "utf-8")) as FolderNode;
+  if (!hierarchy[rootName]) return null;
+  const metadata = readGeneratedFile<FolderMetadata>(metadataPath, "folderMetadata");
+  return { hierarchy, folders: metadata.folders };
+}
+
+/**
+ * Rescan one folder (path below the library root) into a previous scan held in
+ * `rootNode` and `state.folders`. A folder that no longer exists is removed;
+ * one whose parent is not in the hierarchy yet is rescanned from the first
+ * ancestor the hierarchy lacks.
+ */
+function rescanFolder(musicRoot: string, rootNode: FolderNode, folder: string, state: ScanState) {
+  let segments = folder.split(/[\\/]/).filter((segment) => segment && segment !== ".");
+  if (segments.some((segment) => state.ignored.has(segment))) return;
+
+  // A deleted folder is removed from its first ancestor that still exists
+  const missing = segments.findIndex(
+    (_, i) => !fs.existsSync(path.join(musicRoot, ...segments.slice(0, i + 1))),
+  );
+  if (missing >= 0) segments = segments.slice(0, missing + 1);
+
+  let parent = rootNode;
+  let depth = 0;
+  while (depth < segments.length - 1 && parent[segments[depth]]) {
+    parent = parent[segments[depth]];
+    depth++;
+  }
+  const target = segments.slice(0, depth + 1);
+  const key = folderKey(target);
+  const fsPath = path.join(musicRoot, ...target);
+
+  // A deleted path that is not a known folder was a file: rescan its folder
+  if (!fs.existsSync(fsPath) && !(target[depth] in parent)) {
+    if (target.length > 1 && target.length === segments.length) {
+      rescanFolder(musicRoot, rootNode, folderKey(target.slice(0, -1)), state);
+    }
+    return;
+  }
+
+  for (const existing of Object.keys(state.folders)) {
+    if (existing === key || existing.startsWith(`${key}/`)) delete state.folders[existing];
+  }
+
+  const children = Object.entries(parent).filter(([name]) => name !== target[depth]);
+  if (fs.existsSync(fsPath) && fs.statSync(fsPath).isDirectory()) {
+    children.push([target[depth], scanFolder(fsPath, target, state)]);
+  }
+
+  // Rebuild the parent in place, in the order a full scan lists folders
+  for (const name of Object.keys(parent)) delete parent[name];
+  for (const [name, node] of children.sort((a, b) => a[0].localeCompare(b[0]))) {
+    parent[name] = node;
+  }
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+/**
+ * `mlb scan`: write the folder hierarchy, per-folder metadata and scan report.
+ * With --folder only those folders are rescanned into the previous scan.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
+  const musicRoot = getMusicLibraryRoot();
+  if (!musicRoot) return { ok: false, error: "Music library root not found" };
+
+  const ignored = new Set(options.ignore);
+  if (ignored.size > 0) {
+    console.log(`Ignoring folders: ${[...ignored].join(", ")}`);
+  }
+
+  const state: ScanState = {
+    ignored,
+    folders: {},
+    errors: [],
+    foldersScanned: 0,
+    filesScanned: 0,
+  };
+
+  const rootName = path.basename(path.resolve(musicRoot));
+  // "." (the library root itself) means a full scan
+  const partial =
+    options.folders.length > 0 &&
+    options.folders.every((folder) => folder.replace(/[\\/.]/g, "") !== "");
+  const previous = partial ? loadPreviousScan(rootName) : null;
+
+  let hierarchy: FolderNode;
+  if (previous) {
+    console.log(`Rescanning ${options.folders.length} folders...`);
+    state.folders = previous.folders;
+    for (const folder of options.folders) {
+      rescanFolder(musicRoot, previous.hierarchy[rootName], folder, state);
+    }
+    hierarchy = previous.hierarchy;
+  } else {
+    if (partial) console.log("No previous scan to update, scanning everything");
+    console.log("Scanning library...");
+    hierarchy = { [rootName]: scanFolder(musicRoot, [], state) };
+  }
+  const generatedAt = new Date().toISOString();
+
+  const metadata: FolderMetadata = {
+    schemaVersion: SCHEMA_VERSIONS.folderMetadata,
+    generatedAt,
+    musicLibraryRoot: musicRoot,
+    folders: state.folders,
+  };
+  const report: ScanReport = {
+    schemaVersion: SCHEMA_VERSIONS.scanReport,
+    generatedAt,
+    musicLibraryRoot: musicRoot,
+    foldersScanned: state.foldersScanned,
+    filesScanned: state.filesScanned,
+    errors: state.errors,
+  };
+
+  if (options.dryRun) {
+    console.log("Dry run: no files written");
+  } else {
+    const hierarchyPath = path.join(ROOT, SCAN_CONFIG.HIERARCHY_PATH);
+    fs.writeFileSync(hierarchyPath, `${JSON.stringify(hierarchy, null, 2)}\n`);
+    console.log(`Wrote ${hierarchyPath}`);
+
+    const metadataPath = path.join(ROOT, SCAN_CONFIG.METADATA_PATH);
+    fs.mkdirSync(path.dirname(metadataPath), { recursive: true });
+    fs.writeFileSync(metadataPath, `${JSON.stringify(metadata, null, 2)}\n`);
+    console.log(`Wrote ${metadataPath}`);
+
+    const reportPath = path.join(ROOT, SCAN_CONFIG.REPORT_PATH);
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    console.log(`Wrote ${reportPath}`);
+  }
+
+  console.log("\n--- Scan Stats ---");
+  console.log(`Folders: ${state.foldersScanned}`);
+  console.log(`Files:   ${state.filesScanned}`);
+  if (state.errors.length > 0) {
+    console.warn(`Errors:  ${state.errors.length} (see ${SCAN_CONFIG.REPORT_PATH})`);
+    for (const error of state.errors.slice(0, 10)) {
+      console.warn(`  ${error.code}: ${error.path}`);
+    }
+    if (state.errors.length > 10) {
+      console.warn(`  ...and ${state.errors.length - 10} more`);
+    }
+  }
+
+  return {
+    ok: true,
+    foldersScanned: state.foldersScanned,
+    filesScanned: state.filesScanned,
+    errors: state.errors.length,
+  };
+}
@@ -0,0 +1,167 @@
+import fs from "node:fs";
+import { SCHEMA_VERSIONS } from "../src/lib/dataMigrations.js";
+import { uniqueSlug } from "../src/lib/slugify.js";
+import { readGeneratedFile } from "./generatedData.js";
+
+/** Artists and compilations share one namespace, albums another */
+export type SlugKind = "artists" | "albums";
+
+const SLUG_KINDS: SlugKind[] = ["artists", "albums"];
+
+export interface SlugChange {
+  kind: SlugKind;
+  key: string;
+  from: string;
+  to: string;
+  /** "empty": registered before slugs were transliterated, e.g. for a Japanese name */
+  reason: "override" | "duplicate" | "empty";
+}
+
+export interface SlugReport {
+  schemaVersion: number;
+  generatedAt: string;
+  added: { kind: SlugKind; key: string; slug: string }[];
+  changed: SlugChange[];
+  /** Registered folders that were not found in this run (their slugs stay reserved) */
+  missing: { kind: SlugKind; key: string; slug: string }[];
+}
+
+export interface SlugRegistry {
+  /**
+   * Slug for the folder at `key`. A registered folder keeps its slug; a new one
+   * gets a slug derived from `text` (plus `suffix`), numbered if already taken.
+   * `forced` (from an override) replaces the registered slug when it is free.
+   */
+  assign(
+    kind: SlugKind,
+    key: string,
+    text: string,
+    options?: { suffix?: string; forced?: string },
+  ): string;
+  /** Slugs the artist or compilation folder at `key` had before; their pages redirect */
+  formerSlugs(key: string): string[];
+  report(): SlugReport;
+  save(): void;
+  size: number;
+}
+
+type RegistryFile = Partial<Record<SlugKind, Record<string, string>>> & {
+  /** Former artist and compilation slugs → folder key */
+  redirects?: Record<string, string>;
+};
+
+/**
+ * Load the persistent slug registry, keyed by raw folder path below the library
+ * root. Slugs are only ever added or explicitly changed, so URLs survive new
+ * folders being added anywhere in the library. An artist or compilation slug
+ * changed by an override is kept as a redirect and never given to another
+ * folder. A missing file starts empty.
+ */
+export function loadSlugRegistry(registryPath: string): SlugRegistry {
+  const raw: RegistryFile = fs.existsSync(registryPath)
+    ? readGeneratedFile(registryPath, "slugRegistry")
+    : {};
+
+  const entries = {} as Record<SlugKind, Map<string, string>>;
+  const taken = {} as Record<SlugKind, Set<string>>;
+  // Keys whose registered slug is also registered to an earlier key
+  const conflicts = new Set<string>();
+
+  for (const kind of SLUG_KINDS) {
+    entries[kind] = new Map(Object.entries(raw[kind] ?? {}));
+    taken[kind] = new Set();
+    for (const [key, slug] of [...entries[kind]].sort(([a], [b]) => a.localeCompare(b))) {
+      if (taken[kind].has(slug)) conflicts.add(`${kind}:${key}`);
+      taken[kind].add(slug);
+    }
+  }
+
+  const redirects = new Map(Object.entries(raw.redirects ?? {}));
+  for (const slug of redirects.keys()) taken.artists.add(slug);
+
+  const seen = new Set<string>();
+  const added: SlugReport["added"] = [];
+  const changed: SlugChange[] = [];
+
+  function register(kind: SlugKind, key: string, slug: string): string {
+    entries[kind].set(key, slug);
+    return slug;
+  }
+
+  return {
+    assign(kind, key, text, options = {}) {
+      const id = `${kind}:${key}`;
+      seen.add(id);
+      const previous = entries[kind].get(key);
+      const registered = conflicts.has(id) || previous === "" ? undefined : previous;
+
+      const { forced } = options;
+      if (forced && forced !== registered) {
+        // An override may move a folder back to one of its own former slugs
+        const ownRedirect = kind === "artists" && redirects.get(forced) === key;
+        if (!taken[kind].has(forced) || ownRedirect) {
+          taken[kind].add(forced);
+          if (ownRedirect) redirects.delete(forced);
+          if (previous !== undefined) {
+            changed.push({ kind, key, from: previous, to: forced, reason: "override" });
+            if (kind === "artists" && previous) redirects.set(previous, key);
+          } else {
+            added.push({ kind, key, slug: forced });
+          }
+          return register(kind, key, forced);
+        }
+        console.warn(`  Override slug "${forced}" for ${key} is already taken`);
+      }
+
+      if (registered !== undefined) return registered;
+
+      const slug = uniqueSlug(forced ?? text, taken[kind], forced ? undefined : options.suffix);
+      if (previous !== undefined) {
+        const reason = previous === "" ? "empty" : "duplicate";
+        changed.push({ kind, key, from: previous, to: slug, reason });
+      } else {
+        added.push({ kind, key, slug });
+      }
+      conflicts.delete(id);
+      return register(kind, key, slug);
+    },
+
+    formerSlugs(key) {
+      return [...redirects]
+        .filter(([, redirectKey]) => redirectKey === key)
+        .map(([slug]) => slug)
+        .sort();
+    },
+
+    report() {
+      const missing = SLUG_KINDS.flatMap((kind) =>
+        [...entries[kind]]
+          .filter(([key]) => !seen.has(`${kind}:${key}`))
+          .map(([key, slug]) => ({ kind, key, slug })),
+      );
+      return {
+        schemaVersion: SCHEMA_VERSIONS.slugReport,
+        generatedAt: new Date().toISOString(),
+        added,
+        changed,
+        missing,
+      };
+    },
+
+    save() {
+      const sorted = (map: Map<string, string>) =>
+        Object.fromEntries([...map].sort(([a], [b]) => a.localeCompare(b)));
+      const file = {
+        $comment:
+          "Generated by 'pnpm parse'. Maps raw folder paths to their URL slugs so links stay stable; edit a slug here to rename a URL.",
+        schemaVersion: SCHEMA_VERSIONS.slugRegistry,
+        artists: sorted(entries.artists),
+        albums: sorted(entries.albums),
+        redirects: sorted(redirects),
+      };
+      fs.writeFileSync(registryPath, `${JSON.stringify(file, null, 2)}\n`);
+    },
+
+    size: entries.artists.size + entries.albums.size,
+  };
+}
@@ -1,8 +1,14 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import sharp from "sharp";
+import { artFileName } from "../../src/lib/albumArtFiles.js";
+import type { ArtManifest } from "../../src/lib/albumArtTypes.js";
+import { SCHEMA_VERSIONS } from "../../src/lib/dataMigrations.js";
+import type { SpotifyAlbumManifest, SpotifyArtistManifest } from "../../src/lib/spotifyTypes.js";
 import { ART_CONFIG } from "../albumArtConfig.js";
+import { type CommandOptions, type CommandResult, isSelected } from "../commandOptions.js";
+import { readGeneratedFile, readPreviousFile } from "../generatedData.js";
+import { type ArtRenditions, writeArtRenditions } from "../processAlbumArt.js";
 import { collectArtists } from "../traversal.js";
 import type { Album, MusicLibrary } from "../types.js";
 import { authenticate, sleep, spotifyGet } from "./spotifyAuth.js";
@@ -13,51 +19,13 @@ const ROOT = path.join(__dirname, "../..");
 
 // ─── Types ──────────────────────────────────────────────────────────────
 
-interface SpotifyArtistEntry {
-  artistSlug: string;
-  spotifyUrl: string;
-  spotifyId: string;
-  fetchedAt: string;
-}
-
-interface SpotifyArtistManifest {
-  entries: Record<string, SpotifyArtistEntry>;
-}
-
-interface SpotifyTrack {
-  name: string;
-  trackNumber: number;
-  discNumber: number;
-  durationMs: number;
-  spotifyUrl: string;
-}
-
-interface SpotifyAlbumEntry {
-  albumSlug: string;
-  artistSlug: string;
-  spotifyAlbumId: string;
-  spotifyAlbumUrl: string;
-  name: string;
-  releaseDate: string;
-  totalTracks: number;
-  imageUrl: string | null;
-  tracks: SpotifyTrack[];
-  fetchedAt: string;
-}
-
-interface SpotifyAlbumManifest {
-  generatedAt: string;
-  totalArtistsQueried: number;
-  totalAlbumsMatched: number;
-  totalAlbumsUnmatched: number;
-  entries: Record<string, Record<string, SpotifyAlbumEntry>>;
-}
-
 interface ArtistJob {
   slug: string;
   name: string;
   spotifyId: string;
   albums: Album[];
+  /** Matched by --only and --genre */
+  selected: boolean;
 }
 
 // Spotify API response types
@@ -92,21 +60,6 @@ interface SpotifyAlbumFull extends SpotifyAlbumSimple {
   };
 }
 
-interface AlbumArtEntry {
-  artistSlug: string;
-  albumSlug: string;
-  sourceFile: string;
-}
-
-interface ArtManifest {
-  generatedAt: string;
-  musicLibraryRoot: string;
-  totalAlbums: number;
-  albumsWithArt: number;
-  albumsWithoutArt: number;
-  entries: Record<string, Record<string, AlbumArtEntry>>;
-}
-
 // ─── Album Matching ─────────────────────────────────────────────────────
 
 function normalize(s: string): string {
@@ -240,69 +193,60 @@ async function fetchAlbumsBatch(albumIds: string[]): Promise<SpotifyAlbumFull[]>
 // ─── Album Art Download ─────────────────────────────────────────────────
 
 function albumArtExists(artistSlug: string, albumSlug: string): boolean {
-  const artPath = path.join(ROOT, ART_CONFIG.OUTPUT_DIR, artistSlug, `${albumSlug}.webp`);
-  return fs.existsSync(artPath);
+  const artDir = path.join(ROOT, ART_CONFIG.OUTPUT_DIR, artistSlug);
+  const smallest = artFileName(albumSlug, ART_CONFIG.SIZES[0], "webp");
+  const legacy = artFileName(albumSlug, null, "webp");
+  return fs.existsSync(path.join(artDir, smallest)) || fs.existsSync(path.join(artDir, legacy));
 }
 
 async function downloadAlbumArt(
   imageUrl: string,
   artistSlug: string,
   albumSlug: string,
-): Promise<boolean> {
+): Promise<ArtRenditions | null> {
   try {
     const response = await fetch(imageUrl);
-    if (!response.ok) return false;
+    if (!response.ok) return null;
 
     const buffer = Buffer.from(await response.arrayBuffer());
-
     const outDir = path.join(ROOT, ART_CONFIG.OUTPUT_DIR, artistSlug);
-    fs.mkdirSync(outDir, { recursive: true });
-
-    const outPath = path.join(outDir, `${albumSlug}.webp`);
-    await sharp(buffer)
-      .resize(ART_CONFIG.IMAGE_SIZE, ART_CONFIG.IMAGE_SIZE, {
-        fit: "inside",
-        withoutEnlargement: true,
-      })
-      .webp({ quality: ART_CONFIG.WEBP_QUALITY })
-      .toFile(outPath);
-
-    return true;
+    return await writeArtRenditions(buffer, outDir, albumSlug);
   } catch (err) {
     console.warn(`  Failed to download art for ${artistSlug}/${albumSlug}: ${err}`);
-    return false;
+    return null;
   }
 }
 
 // ─── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
-  const limit = Number.parseInt(
-    process.argv.find((a) => a.startsWith("--limit="))?.split("=")[1] ?? "0",
-    10,
-  );
-
+/**
+ * `mlb spotify albums`: match the albums of artists found on Spotify, store
+ * their track lists and download art for albums without a local cover.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
   // Load music data
   const musicDataPath = path.join(ROOT, "data", "generated", "musicData.json");
   if (!fs.existsSync(musicDataPath)) {
     console.error("musicData.json not found. Run 'pnpm parse' first.");
-    process.exit(1);
+    return { ok: false, error: "musicData.json not found" };
   }
-  const musicData: MusicLibrary = JSON.parse(fs.readFileSync(musicDataPath, "utf-8"));
+  const musicData = readGeneratedFile<MusicLibrary>(musicDataPath, "musicData");
 
   // Load artist manifest
   const artistManifestPath = path.join(ROOT, SPOTIFY_CONFIG.MANIFEST_PATH);
   if (!fs.existsSync(artistManifestPath)) {
     console.error("spotifyArtistManifest.json not found. Run 'pnpm spotify' first.");
-    process.exit(1);
+    return { ok: false, error: "spotifyArtistManifest.json not found" };
   }
-  const artistManifest: SpotifyArtistManifest = JSON.parse(
-    fs.readFileSync(artistManifestPath, "utf-8"),
+  const artistManifest = readGeneratedFile<SpotifyArtistManifest>(
+    artistManifestPath,
+    "spotifyArtistManifest",
   );
 
   // Load existing album manifest (for incremental updates)
   const albumManifestPath = path.join(ROOT, SPOTIFY_CONFIG.ALBUM_MANIFEST_PATH);
   let manifest: SpotifyAlbumManifest = {
+    schemaVersion: SCHEMA_VERSIONS.spotifyAlbumManifest,
     generatedAt: "",
     totalArtistsQueried: 0,
     totalAlbumsMatched: 0,
@@ -310,19 +254,20 @@ async function main() {
     entries: {},
   };
 
-  if (fs.existsSync(albumManifestPath)) {
-    try {
-      manifest = JSON.parse(fs.readFileSync(albumManifestPath, "utf-8"));
-      const existingArtists = Object.keys(manifest.entries).length;
-      console.log(`Loaded existing album manifest with ${existingArtists} artist entries.`);
-    } catch {
-      console.warn("Could not parse existing album manifest, starting fresh.");
-    }
+  const previous = readPreviousFile<SpotifyAlbumManifest>(
+    albumManifestPath,
+    "spotifyAlbumManifest",
+  );
+  if (previous) {
+    manifest = previous;
+    const existingArtists = Object.keys(manifest.entries).length;
+    console.log(`Loaded existing album manifest with ${existingArtists} artist entries.`);
   }
 
   // Load album art manifest (for checking existing art)
   const artManifestPath = path.join(ROOT, ART_CONFIG.MANIFEST_PATH);
-  let artManifest: ArtManifest = {
+  const artManifest: ArtManifest = readPreviousFile(artManifestPath, "albumArtManifest") ?? {
+    schemaVersion: SCHEMA_VERSIONS.albumArtManifest,
     generatedAt: "",
     musicLibraryRoot: "",
     totalAlbums: 0,
@@ -331,14 +276,6 @@ async function main() {
     entries: {},
   };
 
-  if (fs.existsSync(artManifestPath)) {
-    try {
-      artManifest = JSON.parse(fs.readFileSync(artManifestPath, "utf-8"));
-    } catch {
-      console.warn("Could not parse album art manifest.");
-    }
-  }
-
   // Collect jobs using shared traversal
   let allJobs: ArtistJob[] = collectArtists(musicData, (artist) => {
     const spotifyEntry = artistManifest.entries[artist.slug];
@@ -348,27 +285,35 @@ async function main() {
       name: artist.name,
       spotifyId: spotifyEntry.spotifyId,
       albums: artist.albums,
+      selected: isSelected(options, artist),
     };
   });
   const totalArtists = allJobs.length;
 
   // Filter out already-processed artists
-  const newJobs = allJobs.filter((job) => !(job.slug in manifest.entries));
+  const alreadyProcessed = allJobs.filter((job) => job.slug in manifest.entries).length;
+  const newJobs = allJobs.filter((job) => job.selected && !(job.slug in manifest.entries));
 
-  if (limit > 0) {
-    allJobs = newJobs.slice(0, limit);
-    console.log(`Limiting to ${limit} artists (--limit flag).`);
+  if (options.limit) {
+    allJobs = newJobs.slice(0, options.limit);
+    console.log(`Limiting to ${options.limit} artists (--limit flag).`);
   } else {
     allJobs = newJobs;
   }
 
   console.log(`Artists with Spotify IDs: ${totalArtists}`);
-  console.log(`Already processed: ${totalArtists - newJobs.length}`);
+  console.log(`Already processed: ${alreadyProcessed}`);
   console.log(`To process: ${allJobs.length}\n`);
 
   if (allJobs.length === 0) {
     console.log("Nothing to do — all artists already in manifest.");
-    return;
+    return { ok: true, processed: 0, matched: 0 };
+  }
+
+  if (options.dryRun) {
+    const albums = allJobs.reduce((sum, job) => sum + job.albums.length, 0);
+    console.log(`Dry run: would match ${albums} albums, Spotify not queried`);
+    return { ok: true, processed: 0, toProcess: allJobs.length, albums };
   }
 
   await authenticate();
@@ -452,8 +397,8 @@ async function main() {
 
             // Download album art if missing locally
             if (imageUrl && !albumArtExists(job.slug, localAlbum.slug)) {
-              const ok = await downloadAlbumArt(imageUrl, job.slug, localAlbum.slug);
-              if (ok) {
+              const renditions = await downloadAlbumArt(imageUrl, job.slug, localAlbum.slug);
+              if (renditions) {
                 artDownloaded++;
                 // Update art manifest
                 if (!artManifest.entries[job.slug]) {
@@ -462,7 +407,9 @@ async function main() {
                 artManifest.entries[job.slug][localAlbum.slug] = {
                   artistSlug: job.slug,
                   albumSlug: localAlbum.slug,
+                  source: "spotify",
                   sourceFile: "spotify",
+                  ...renditions,
                 };
               } else {
                 artSkipped++;
@@ -508,6 +455,8 @@ async function main() {
   console.log(`Album art downloaded: ${artDownloaded}`);
   if (artSkipped > 0) console.log(`Album art failed: ${artSkipped}`);
   console.log(`Manifest: ${albumManifestPath}`);
+
+  return { ok: true, processed, matched: totalMatched, unmatched: totalUnmatched, artDownloaded };
 }
 
 function writeManifest(
@@ -542,8 +491,3 @@ function writeArtManifest(manifest: ArtManifest, manifestPath: string): void {
 
   fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
 }
-
-main().catch((err) => {
-  console.error("Fatal error:", err);
-  process.exit(1);
-});
@@ -1,6 +1,10 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { SCHEMA_VERSIONS } from "../../src/lib/dataMigrations.js";
+import type { SpotifyArtistManifest } from "../../src/lib/spotifyTypes.js";
+import { type CommandOptions, type CommandResult, isSelected } from "../commandOptions.js";
+import { readGeneratedFile, readPreviousFile } from "../generatedData.js";
 import { collectArtists } from "../traversal.js";
 import type { MusicLibrary } from "../types.js";
 import { authenticate, ensureAuth, getAccessToken, sleep } from "./spotifyAuth.js";
@@ -11,24 +15,11 @@ const ROOT = path.join(__dirname, "../..");
 
 // ─── Types ──────────────────────────────────────────────────────────────
 
-interface SpotifyArtistEntry {
-  artistSlug: string;
-  spotifyUrl: string;
-  spotifyId: string;
-  fetchedAt: string;
-}
-
-interface SpotifyArtistManifest {
-  generatedAt: string;
-  totalQueried: number;
-  matched: number;
-  unmatched: number;
-  entries: Record<string, SpotifyArtistEntry>;
-}
-
 interface ArtistJob {
   slug: string;
   name: string;
+  /** Matched by --only and --genre */
+  selected: boolean;
 }
 
 // ─── Spotify API ────────────────────────────────────────────────────────
@@ -101,18 +92,22 @@ async function searchArtist(
 
 // ─── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+/**
+ * `mlb spotify artists`: look up artists not yet in the Spotify artist manifest.
+ */
+export async function run(options: CommandOptions): Promise<CommandResult> {
   const musicDataPath = path.join(ROOT, "data", "generated", "musicData.json");
   if (!fs.existsSync(musicDataPath)) {
     console.error("musicData.json not found. Run 'pnpm parse' first.");
-    process.exit(1);
+    return { ok: false, error: "musicData.json not found" };
   }
 
-  const musicData: MusicLibrary = JSON.parse(fs.readFileSync(musicDataPath, "utf-8"));
+  const musicData = readGeneratedFile<MusicLibrary>(musicDataPath, "musicData");
 
   // Load existing manifest to skip already-fetched artists
   const manifestPath = path.join(ROOT, SPOTIFY_CONFIG.MANIFEST_PATH);
   let existingManifest: SpotifyArtistManifest = {
+    schemaVersion: SCHEMA_VERSIONS.spotifyArtistManifest,
     generatedAt: "",
     totalQueried: 0,
     matched: 0,
@@ -120,30 +115,40 @@ async function main() {
     entries: {},
   };
 
-  if (fs.existsSync(manifestPath)) {
-    try {
-      existingManifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
-      console.log(
-        `Loaded existing manifest with ${Object.keys(existingManifest.entries).length} entries.`,
-      );
-    } catch {
-      console.warn("Could not parse existing manifest, starting fresh.");
-    }
+  const previous = readPreviousFile<SpotifyArtistManifest>(manifestPath, "spotifyArtistManifest");
+  if (previous) {
+    existingManifest = previous;
+    console.log(
+      `Loaded existing manifest with ${Object.keys(existingManifest.entries).length} entries.`,
+    );
   }
 
   const allArtists: ArtistJob[] = collectArtists(musicData, (artist) => ({
     slug: artist.slug,
     name: artist.name,
+    selected: isSelected(options, artist),
   }));
-  const newJobs = allArtists.filter((artist) => !(artist.slug in existingManifest.entries));
+  const unfetched = allArtists.filter(
+    (artist) => artist.selected && !(artist.slug in existingManifest.entries),
+  );
+  const newJobs = options.limit ? unfetched.slice(0, options.limit) : unfetched;
 
   console.log(`Total artists: ${allArtists.length}`);
-  console.log(`Already fetched: ${allArtists.length - newJobs.length}`);
+  console.log(
+    `Already fetched: ${allArtists.filter((artist) => artist.slug in existingManifest.entries).length}`,
+  );
   console.log(`To fetch: ${newJobs.length}\n`);
 
   if (newJobs.length === 0) {
     console.log("Nothing to do — all artists already in manifest.");
-    return;
+    return { ok: true, queried: 0, matched: 0 };
+  }
+
+  if (options.dryRun) {
+    for (const job of newJobs.slice(0, 20)) console.log(`  ${job.name}`);
+    if (newJobs.length > 20) console.log(`  ...and ${newJobs.length - 20} more`);
+    console.log("Dry run: Spotify not queried, manifest not written");
+    return { ok: true, queried: 0, toFetch: newJobs.length };
   }
 
   await authenticate();
@@ -212,6 +217,8 @@ async function main() {
     `Total in manifest: ${Object.keys(existingManifest.entries).length}/${allArtists.length}`,
   );
   console.log(`Manifest: ${manifestPath}`);
+
+  return { ok: true, queried: processed, matched, unmatched, errors };
 }
 
 function writeManifest(
@@ -228,8 +235,3 @@ function writeManifest(
   fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
   fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
 }
-
-main().catch((err) => {
-  console.error("Fatal error:", err);
-  process.exit(1);
-});
@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { CommandError } from "../commandOptions.js";
 import { SPOTIFY_CONFIG } from "./spotifyConfig.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -31,11 +32,10 @@ export async function authenticate(): Promise<void> {
   const clientSecret = loadEnvVar("SPOTIFY_CLIENT_SECRET");
 
   if (!clientId || !clientSecret) {
-    console.error(
-      "SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET must be set in .env or as environment variables.",
+    throw new CommandError(
+      "SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET must be set in .env or as environment variables.\n" +
+        "Get credentials at https://developer.spotify.com/dashboard",
     );
-    console.error("Get credentials at https://developer.spotify.com/dashboard");
-    process.exit(1);
   }
 
   const response = await fetch(SPOTIFY_CONFIG.TOKEN_URL, {
@@ -49,8 +49,7 @@ export async function authenticate(): Promise<void> {
 
   if (!response.ok) {
     const text = await response.text();
-    console.error(`Spotify auth failed (${response.status}): ${text}`);
-    process.exit(1);
+    throw new CommandError(`Spotify auth failed (${response.status}): ${text}`);
   }
 
   const data = (await response.json()) as { access_token: string; expires_in: number };
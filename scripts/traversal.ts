@@ -1,8 +1,16 @@
 import type { Artist, Compilation, MusicLibrary, Subgenre } from "./types.js";
 
+/**
+ * Build the lookup key for a folder from its path segments below the library root.
+ * e.g. ["Metal", "Doom", "Candlemass (Swe)"] -> "Metal/Doom/Candlemass (Swe)"
+ */
+export function folderKey(segments: string[]): string {
+  return segments.join("/");
+}
+
 /**
  * Walk all artists in the music library, deduplicating by slug.
- * Calls `visitor` for each unique artist across all genres/subgenres.
+ * Calls `visitor` once per artist, including artists merged from several genres.
  */
 export function forEachArtist(musicData: MusicLibrary, visitor: (artist: Artist) => void): void {
   const seen = new Set<string>();
@@ -43,20 +51,29 @@ export function collectArtists<T>(
 /**
  * Walk all artists and compilations, calling respective visitors.
  * Used by album art processing which needs both artists and VA compilations.
+ * Artists listed under several genres are visited once.
  */
 export function forEachArtistAndCompilation(
   musicData: MusicLibrary,
   onArtist: (artist: Artist) => void,
   onCompilation: (compilation: Compilation) => void,
 ): void {
+  const seen = new Set<string>();
+
+  function visitArtist(artist: Artist) {
+    if (seen.has(artist.slug)) return;
+    seen.add(artist.slug);
+    onArtist(artist);
+  }
+
   function fromSubgenre(sg: Subgenre) {
-    sg.artists.forEach(onArtist);
+    sg.artists.forEach(visitArtist);
     sg.compilations.forEach(onCompilation);
     sg.subgenres.forEach(fromSubgenre);
   }
 
   for (const genre of musicData.genres) {
-    genre.artists.forEach(onArtist);
+    genre.artists.forEach(visitArtist);
     genre.compilations.forEach(onCompilation);
     genre.subgenres.forEach(fromSubgenre);
   }
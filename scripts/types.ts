@@ -1,4 +1,6 @@
 export interface MusicLibrary {
+  /** Format version of the file, see SCHEMA_VERSIONS in src/lib/dataMigrations.ts */
+  schemaVersion: number;
   genres: Genre[];
   stats: LibraryStats;
 }
@@ -36,9 +38,37 @@ export interface Artist {
   country: string | null;
   isoCodes: string[];
   tags: string[];
+  /** Primary genre folder (first of genrePaths) */
   genrePath: string[];
+  /** Every genre folder the artist appears in, when merged from several folders */
+  genrePaths: string[][];
   albums: Album[];
   rawFolderName: string;
+  /**
+   * Slugs of the other folders merged into this artist, and former slugs of its
+   * folders (redirected to `slug`)
+   */
+  slugAliases?: string[];
+  /** Folder (path below the library root) each slug alias belonged to, when merged */
+  slugAliasFolders?: Record<string, string>;
+  /** Split and collaboration releases filed under other artists' folders */
+  appearsOn?: ArtistAppearance[];
+  /** Set when merged from folders with different tags, e.g. "(early)" and "(later)" */
+  eras?: ArtistEra[];
+}
+
+/** One merged folder of an artist, in order of its first release */
+export interface ArtistEra {
+  /** Tags from the folder name, e.g. ["early"]; empty for the untagged folder */
+  tags: string[];
+  genrePath: string[];
+  rawFolderName: string;
+  albumSlugs: string[];
+}
+
+export interface ArtistAppearance {
+  artistSlug: string;
+  albumSlug: string;
 }
 
 export interface Compilation {
@@ -47,19 +77,98 @@ export interface Compilation {
   genrePath: string[];
   albums: Album[];
   rawFolderName: string;
+  /** Former slugs of the folder, e.g. from when it was listed as an artist (redirected to `slug`) */
+  slugAliases?: string[];
 }
 
 export interface Album {
   name: string;
   slug: string;
+  /** Exact release year; null when unknown or only approximate (see releaseDate) */
   year: number | null;
+  /** Date from the folder name's leading marker, e.g. "[2004-05-12]" or "[199x]" */
+  releaseDate: ReleaseDate | null;
   type: ReleaseType;
   reissue?: string;
   hasMultipleDiscs: boolean;
   discCount: number;
+  /** Disc subfolders (e.g. "CD1", "CD2 - Live in Oslo"), ordered by number */
+  discs: AlbumDisc[];
+  /** Non-audio subfolders such as Scans or Artwork */
+  extras: string[];
+  /** Set on a box set: the whole releases it contains */
+  releases?: BoxSetRelease[];
+  rawFolderName: string;
+  /** Album folder path below the library root, including rawFolderName */
+  folderPath: string[];
+  /** Every copy of the album found on disk (e.g. MP3 and lossless folders) */
+  formats: AlbumFormat[];
+  media?: AlbumMedia;
+  /** Set on a reissue: slug of the master release it is an edition of */
+  masterSlug?: string;
+  /** Set on a master release with several editions (itself first, then by year) */
+  editions?: AlbumEdition[];
+  /** Other artists on a split or collaboration release */
+  participants?: AlbumParticipant[];
+}
+
+export interface ReleaseDate {
+  /** First year of release; the start of the decade for "[199x]" */
+  year: number;
+  month?: number;
+  day?: number;
+  /** Last year of a release spanning several years, e.g. "[1990-1995]" */
+  endYear?: number;
+  /** Year of recording, e.g. from "[2004, rec. 1998]" */
+  recordedYear?: number;
+  /** Only the decade is known, e.g. "[199x]" */
+  uncertain?: boolean;
+}
+
+export interface AlbumParticipant {
+  name: string;
+  /** Set when the name matches an artist in the library */
+  artistSlug?: string;
+}
+
+export interface AlbumDisc {
+  /** Disc number from the folder name, or its position when it has none */
+  number: number;
+  /** Text after the disc number, e.g. "Live in Oslo" */
+  title: string | null;
   rawFolderName: string;
 }
 
+export interface BoxSetRelease {
+  name: string;
+  year: number | null;
+  type: ReleaseType;
+  rawFolderName: string;
+  discs: AlbumDisc[];
+  extras: string[];
+}
+
+export interface AlbumEdition {
+  slug: string;
+  /** Year from the folder name */
+  year: number | null;
+  /** Label from reissuePatterns; absent for the original */
+  reissue?: string;
+  /** Year the reissue came out, from the folder name or the edition's own year */
+  reissueYear: number | null;
+  rawFolderName: string;
+  lossless: boolean;
+}
+
+export interface AlbumFormat {
+  rawFolderName: string;
+  /** Labels from folder name markers, e.g. "Lossless", "320 kbps" */
+  markers: string[];
+  /** Audio file extensions in the folder (empty without `pnpm scan`) */
+  extensions: string[];
+  lossless: boolean;
+}
+
 export enum ReleaseType {
   Album = "album",
   EP = "ep",
@@ -72,9 +181,13 @@ export enum ReleaseType {
 }
 
 export interface SearchEntry {
-  type: "artist" | "album" | "genre";
+  type: "artist" | "compilation" | "album" | "genre";
   name: string;
+  /** Transliterated name, when it differs (e.g. "Kino" for "Кино") */
+  altName?: string;
   artist?: string;
+  /** Transliterated artist name of an album, when it differs */
+  altArtist?: string;
   country?: string | null;
   isoCodes?: string[];
   year?: number | null;
@@ -83,3 +196,121 @@ export interface SearchEntry {
   url: string;
   albumCount?: number;
 }
+
+export interface SearchIndex {
+  schemaVersion: number;
+  entries: SearchEntry[];
+}
+
+// ─── Library scan ───────────────────────────────────────────────────────
+
+export interface FolderNode {
+  [key: string]: FolderNode;
+}
+
+export interface FolderStats {
+  audioFileCount: number;
+  totalBytes: number;
+  extensions: string[];
+  imageFiles: string[];
+  newestMtime: string | null;
+}
+
+export interface FolderMetadata {
+  schemaVersion: number;
+  generatedAt: string;
+  musicLibraryRoot: string;
+  folders: Record<string, FolderStats>;
+}
+
+export interface ScanError {
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface ScanReport {
+  schemaVersion: number;
+  generatedAt: string;
+  musicLibraryRoot: string;
+  foldersScanned: number;
+  filesScanned: number;
+  errors: ScanError[];
+}
+
+export interface AlbumMedia {
+  audioFileCount: number;
+  totalBytes: number;
+  extensions: string[];
+  newestMtime: string | null;
+}
+
+// ─── Parse report ───────────────────────────────────────────────────────
+
+export type NodeType = "subgenre" | "artist" | "compilation" | "album" | "ignore";
+
+/** The classifyNode heuristic that decided a node's type */
+export type ClassificationRule =
+  | "override"
+  | "ignored-genre"
+  | "parent-is-artist"
+  | "parent-is-compilation"
+  | "va-prefix"
+  | "file-artifact"
+  | "country-code"
+  | "country-code-with-tag"
+  | "multi-country"
+  | "descriptor-then-country"
+  | "album-like-children"
+  | "has-children"
+  | "empty";
+
+/**
+ * A curated correction from data/overrides.json, keyed by raw folder path.
+ * Only the fields that are set replace what the parser derived.
+ */
+export interface FolderOverride {
+  type?: NodeType;
+  name?: string;
+  countryCode?: string | null;
+  tags?: string[];
+  year?: number | null;
+  releaseType?: ReleaseType;
+  reissue?: string | null;
+  slug?: string;
+  /** Artist folders sharing an artistId are merged into one artist */
+  artistId?: string;
+}
+
+export interface Classification {
+  type: NodeType;
+  rule: ClassificationRule;
+  albumLikeChildren: number;
+  totalChildren: number;
+}
+
+export interface ParseReportNode {
+  path: string;
+  type: NodeType | "genre";
+  rule: ClassificationRule | "genre-folder";
+}
+
+export interface ParseReportFlag {
+  path: string;
+  reason: string;
+}
+
+export interface ParseReport {
+  schemaVersion: number;
+  generatedAt: string;
+  countsByType: Record<string, number>;
+  countsByRule: Record<string, number>;
+  flags: {
+    artistsWithoutCountry: ParseReportFlag[];
+    albumLikeSubgenres: ParseReportFlag[];
+    emptyIgnored: ParseReportFlag[];
+  };
+  /** Parentheticals that look like country codes but do not resolve, with their folders */
+  unknownCountryCodes: Record<string, string[]>;
+  nodes: ParseReportNode[];
+}
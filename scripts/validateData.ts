@@ -0,0 +1,493 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { z } from "zod";
+import { artFileNames } from "../src/lib/albumArtFiles.js";
+import type { ArtManifest } from "../src/lib/albumArtTypes.js";
+import type { Changelog } from "../src/lib/changelogTypes.js";
+import type { CollageManifest } from "../src/lib/collageTypes.js";
+import {
+  type DataFile,
+  getSchemaVersion,
+  migrateData,
+  SCHEMA_VERSIONS,
+} from "../src/lib/dataMigrations.js";
+import type { LocalTrackManifest } from "../src/lib/localTrackTypes.js";
+import { slugify } from "../src/lib/slugify.js";
+import type { SpotifyAlbumManifest, SpotifyArtistManifest } from "../src/lib/spotifyTypes.js";
+import { ART_CONFIG, COLLAGE_CONFIG } from "./albumArtConfig.js";
+import type { CommandOptions, CommandResult } from "./commandOptions.js";
+import {
+  artManifestSchema,
+  changelogSchema,
+  collageManifestSchema,
+  localTrackManifestSchema,
+  musicLibrarySchema,
+  searchIndexSchema,
+  spotifyAlbumManifestSchema,
+  spotifyArtistManifestSchema,
+} from "./dataSchemas.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
+import { SPOTIFY_CONFIG } from "./spotify/spotifyConfig.js";
+import { forEachArtist, forEachArtistAndCompilation } from "./traversal.js";
+import type { Album, Genre, MusicLibrary, SearchIndex, Subgenre } from "./types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+const VALIDATE_CONFIG = {
+  MUSIC_DATA_PATH: "data/generated/musicData.json",
+  CHANGELOG_PATH: "data/generated/changelog.json",
+  SEARCH_INDEX_PATHS: ["data/generated/searchIndex.json", "public/searchIndex.json"],
+
+  // Problems listed per file before the rest are summarized as a count
+  MAX_ISSUES_PER_FILE: 25,
+};
+
+// ─── Report ─────────────────────────────────────────────────────────────
+
+interface Issue {
+  /** Location in the file, e.g. "genres[0].artists[3].albums[1].slug" */
+  at: string;
+  message: string;
+}
+
+const issues = new Map<string, Issue[]>();
+const notes: string[] = [];
+/** Files read so far, in the order they are reported */
+const checkedFiles: string[] = [];
+
+function report(file: string, at: string, message: string): void {
+  const list = issues.get(file) ?? [];
+  list.push({ at, message });
+  issues.set(file, list);
+}
+
+function printReport(): void {
+  for (const note of notes) console.log(`  - ${note}`);
+  if (notes.length > 0) console.log();
+
+  for (const file of checkedFiles) {
+    const list = issues.get(file);
+    if (!list) {
+      console.log(`✓ ${file}`);
+      continue;
+    }
+    console.log(`✗ ${file} (${list.length} problem${list.length === 1 ? "" : "s"})`);
+    for (const issue of list.slice(0, VALIDATE_CONFIG.MAX_ISSUES_PER_FILE)) {
+      console.log(`    ${issue.at || "(root)"}: ${issue.message}`);
+    }
+    const hidden = list.length - VALIDATE_CONFIG.MAX_ISSUES_PER_FILE;
+    if (hidden > 0) console.log(`    ...and ${hidden} more`);
+  }
+}
+
+// ─── Schemas ────────────────────────────────────────────────────────────
+
+function formatPath(segments: (string | number)[]): string {
+  return segments
+    .map((segment, i) =>
+      typeof segment === "number" ? `[${segment}]` : i === 0 ? segment : `.${segment}`,
+    )
+    .join("");
+}
+
+/**
+ * Read a JSON file, upgrade it to the current schema version and parse it
+ * against its schema. Returns the data when it is valid, otherwise reports
+ * every schema problem and returns null. Optional files that do not exist are
+ * noted and skipped.
+ */
+function loadFile<T>(
+  file: string,
+  kind: DataFile,
+  schema: z.ZodType<T>,
+  optional: string | null,
+): T | null {
+  const filePath = path.join(ROOT, file);
+  if (!fs.existsSync(filePath)) {
+    if (optional) {
+      notes.push(`${file} not found, skipped (run '${optional}' to create it)`);
+      return null;
+    }
+    checkedFiles.push(file);
+    report(file, "", "file not found (run 'pnpm parse' first)");
+    return null;
+  }
+  checkedFiles.push(file);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    report(file, "", `invalid JSON: ${(err as Error).message}`);
+    return null;
+  }
+
+  const version = getSchemaVersion(raw);
+  let data: unknown;
+  try {
+    data = migrateData(kind, raw);
+  } catch (err) {
+    report(file, "schemaVersion", (err as Error).message);
+    return null;
+  }
+  if (version < SCHEMA_VERSIONS[kind]) {
+    notes.push(
+      `${file} is schema version ${version}, upgraded to ${SCHEMA_VERSIONS[kind]} on load`,
+    );
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    for (const issue of result.error.issues) report(file, formatPath(issue.path), issue.message);
+    return null;
+  }
+  return result.data;
+}
+
+// ─── Checks ─────────────────────────────────────────────────────────────
+
+/** Album slugs of every artist and compilation, keyed by their slug */
+function collectAlbumSlugs(library: MusicLibrary): Map<string, Set<string>> {
+  const owners = new Map<string, Set<string>>();
+  forEachArtistAndCompilation(
+    library,
+    (artist) => owners.set(artist.slug, new Set(artist.albums.map((a) => a.slug))),
+    (comp) => owners.set(comp.slug, new Set(comp.albums.map((a) => a.slug))),
+  );
+  return owners;
+}
+
+/**
+ * Cross-references inside musicData.json: editions, split appearances and
+ * participants must point at albums and artists that exist.
+ */
+function checkLibrary(file: string, library: MusicLibrary, owners: Map<string, Set<string>>) {
+  function checkAlbums(ownerSlug: string, albums: Album[]) {
+    const slugs = owners.get(ownerSlug) ?? new Set();
+    for (const album of albums) {
+      const at = `${ownerSlug}/${album.slug}`;
+      if (album.masterSlug && !slugs.has(album.masterSlug)) {
+        report(file, at, `masterSlug "${album.masterSlug}" is not an album of ${ownerSlug}`);
+      }
+      for (const edition of album.editions ?? []) {
+        if (!slugs.has(edition.slug)) {
+          report(file, at, `edition "${edition.slug}" is not an album of ${ownerSlug}`);
+        }
+      }
+      for (const participant of album.participants ?? []) {
+        if (participant.artistSlug && !owners.has(participant.artistSlug)) {
+          report(file, at, `participant "${participant.artistSlug}" is not an artist`);
+        }
+      }
+    }
+  }
+
+  forEachArtistAndCompilation(
+    library,
+    (artist) => {
+      checkAlbums(artist.slug, artist.albums);
+      for (const appearance of artist.appearsOn ?? []) {
+        if (!owners.get(appearance.artistSlug)?.has(appearance.albumSlug)) {
+          report(
+            file,
+            artist.slug,
+            `appearsOn "${appearance.artistSlug}/${appearance.albumSlug}" is not an album`,
+          );
+        }
+      }
+      for (const era of artist.eras ?? []) {
+        for (const albumSlug of era.albumSlugs) {
+          if (!owners.get(artist.slug)?.has(albumSlug)) {
+            report(
+              file,
+              artist.slug,
+              `era "${era.rawFolderName}" album "${albumSlug}" is not an album`,
+            );
+          }
+        }
+      }
+    },
+    (comp) => checkAlbums(comp.slug, comp.albums),
+  );
+}
+
+/** Every page URL the site builds for the library, as the search index links them */
+function collectPageUrls(library: MusicLibrary): Set<string> {
+  const urls = new Set<string>();
+  forEachArtistAndCompilation(
+    library,
+    (artist) => {
+      urls.add(`/artist/${artist.slug}`);
+      for (const album of artist.albums) urls.add(`/artist/${artist.slug}/${album.slug}`);
+    },
+    (comp) => {
+      urls.add(`/compilation/${comp.slug}`);
+      for (const album of comp.albums) urls.add(`/compilation/${comp.slug}/${album.slug}`);
+    },
+  );
+
+  function addGenre(node: Genre | Subgenre, pathSlugs: string[]) {
+    urls.add(`/genre/${pathSlugs.join("/")}`);
+    for (const sg of node.subgenres)
+      addGenre(
+        sg,
+        sg.fullPath.map((p) => slugify(p)),
+      );
+  }
+  for (const genre of library.genres) addGenre(genre, [genre.slug]);
+
+  return urls;
+}
+
+function checkSearchIndex(file: string, index: SearchIndex, urls: Set<string>) {
+  index.entries.forEach((entry, i) => {
+    if (!urls.has(entry.url)) report(file, `entries[${i}]`, `url "${entry.url}" is not a page`);
+  });
+}
+
+/**
+ * Art manifest entries must belong to an existing album, match the keys they
+ * are filed under and have their image on disk.
+ */
+function checkArtManifest(file: string, manifest: ArtManifest, owners: Map<string, Set<string>>) {
+  for (const [ownerSlug, albums] of Object.entries(manifest.entries)) {
+    const albumSlugs = owners.get(ownerSlug);
+    if (!albumSlugs) {
+      report(file, ownerSlug, "not an artist or compilation");
+      continue;
+    }
+    for (const [albumSlug, entry] of Object.entries(albums)) {
+      const at = `${ownerSlug}/${albumSlug}`;
+      if (!albumSlugs.has(albumSlug)) report(file, at, `not an album of ${ownerSlug}`);
+      if (entry.artistSlug !== ownerSlug || entry.albumSlug !== albumSlug) {
+        report(file, at, `entry is for "${entry.artistSlug}/${entry.albumSlug}"`);
+      }
+      for (const fileName of artFileNames(entry)) {
+        const imagePath = path.join(ROOT, ART_CONFIG.OUTPUT_DIR, ownerSlug, fileName);
+        if (!fs.existsSync(imagePath)) {
+          report(file, at, `image missing: ${path.relative(ROOT, imagePath)}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Collages must belong to an existing artist or genre page, be made of albums
+ * that exist and have their image on disk.
+ */
+function checkCollages(
+  file: string,
+  manifest: CollageManifest,
+  owners: Map<string, Set<string>>,
+  artists: Set<string>,
+  urls: Set<string>,
+) {
+  const collages = [
+    ...Object.entries(manifest.artists).map(([slug, entry]) => ({
+      at: `artists.${slug}`,
+      missing: artists.has(slug) ? null : "not an artist",
+      entry,
+    })),
+    ...Object.entries(manifest.genres).map(([genrePath, entry]) => ({
+      at: `genres.${genrePath}`,
+      missing: urls.has(`/genre/${genrePath}`) ? null : "not a genre",
+      entry,
+    })),
+  ];
+
+  for (const { at, missing, entry } of collages) {
+    if (missing) report(file, at, missing);
+    for (const cover of entry.covers) {
+      const [ownerSlug, albumSlug] = cover.split("/");
+      if (!owners.get(ownerSlug)?.has(albumSlug))
+        report(file, at, `cover "${cover}" is not an album`);
+    }
+    const imagePath = path.join(ROOT, COLLAGE_CONFIG.OUTPUT_DIR, entry.file);
+    if (!fs.existsSync(imagePath)) {
+      report(file, at, `image missing: ${path.relative(ROOT, imagePath)}`);
+    }
+  }
+}
+
+/**
+ * Track list entries must belong to an existing album, match the keys they are
+ * filed under and list each audio file once.
+ */
+function checkTrackManifest(
+  file: string,
+  manifest: LocalTrackManifest,
+  owners: Map<string, Set<string>>,
+) {
+  for (const [ownerSlug, albums] of Object.entries(manifest.entries)) {
+    const albumSlugs = owners.get(ownerSlug);
+    if (!albumSlugs) {
+      report(file, ownerSlug, "not an artist or compilation");
+      continue;
+    }
+    for (const [albumSlug, entry] of Object.entries(albums)) {
+      const at = `${ownerSlug}/${albumSlug}`;
+      if (!albumSlugs.has(albumSlug)) report(file, at, `not an album of ${ownerSlug}`);
+      if (entry.artistSlug !== ownerSlug || entry.albumSlug !== albumSlug) {
+        report(file, at, `entry is for "${entry.artistSlug}/${entry.albumSlug}"`);
+      }
+      const fileNames = entry.tracks.map((track) => track.fileName);
+      const duplicate = fileNames.find((name, i) => fileNames.indexOf(name) !== i);
+      if (duplicate) report(file, at, `"${duplicate}" is listed twice`);
+    }
+  }
+}
+
+/**
+ * Changes must be oldest first and no newer than `updatedAt`. Moves and
+ * renames record the previous state, and album changes their owner. Changes
+ * may name entities that no longer exist, so slugs are not checked.
+ */
+function checkChangelog(file: string, changelog: Changelog) {
+  let previousTime = Number.NEGATIVE_INFINITY;
+  changelog.changes.forEach((change, i) => {
+    const at = `changes[${i}]`;
+    const time = Date.parse(change.timestamp);
+    if (time < previousTime) report(file, at, "older than the change before it");
+    previousTime = time;
+    if (time > Date.parse(changelog.updatedAt)) report(file, at, "newer than updatedAt");
+
+    if ((change.kind === "moved" || change.kind === "renamed") && !change.previous) {
+      report(file, at, `${change.kind} without previous`);
+    }
+    if (change.entity === "album" && !change.parentSlug) {
+      report(file, at, "album change without parentSlug");
+    }
+  });
+}
+
+/**
+ * Spotify entries are keyed by artist slug. Entries fetched before artists were
+ * merged keep a slug now in slugAliases; `artists` maps both to the artist's slug.
+ */
+function checkSpotifyArtists(
+  file: string,
+  manifest: SpotifyArtistManifest,
+  artists: Map<string, string>,
+) {
+  for (const [artistSlug, entry] of Object.entries(manifest.entries)) {
+    if (!artists.has(artistSlug)) report(file, artistSlug, "not an artist");
+    if (entry.artistSlug !== artistSlug) {
+      report(file, artistSlug, `entry is for "${entry.artistSlug}"`);
+    }
+  }
+}
+
+function checkSpotifyAlbums(
+  file: string,
+  manifest: SpotifyAlbumManifest,
+  owners: Map<string, Set<string>>,
+  artists: Map<string, string>,
+) {
+  for (const [artistSlug, albums] of Object.entries(manifest.entries)) {
+    const ownerSlug = artists.get(artistSlug);
+    if (!ownerSlug) {
+      report(file, artistSlug, "not an artist");
+      continue;
+    }
+    for (const [albumSlug, entry] of Object.entries(albums)) {
+      const at = `${artistSlug}/${albumSlug}`;
+      if (!owners.get(ownerSlug)?.has(albumSlug)) report(file, at, `not an album of ${ownerSlug}`);
+      if (entry.artistSlug !== artistSlug || entry.albumSlug !== albumSlug) {
+        report(file, at, `entry is for "${entry.artistSlug}/${entry.albumSlug}"`);
+      }
+    }
+  }
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────
+
+/**
+ * `mlb validate`: check every generated file against its schema and the
+ * references between them. Fails (`ok: false`) when any problem is found.
+ */
+export async function run(_options: CommandOptions): Promise<CommandResult> {
+  issues.clear();
+  notes.length = 0;
+  checkedFiles.length = 0;
+  console.log("Validating generated data...\n");
+
+  const musicDataFile = VALIDATE_CONFIG.MUSIC_DATA_PATH;
+  const library = loadFile(musicDataFile, "musicData", musicLibrarySchema, null);
+  const searchIndexes = VALIDATE_CONFIG.SEARCH_INDEX_PATHS.map(
+    (file) => [file, loadFile(file, "searchIndex", searchIndexSchema, null)] as const,
+  );
+  const artManifest = loadFile(
+    ART_CONFIG.MANIFEST_PATH,
+    "albumArtManifest",
+    artManifestSchema,
+    "pnpm art",
+  );
+  const changelog = loadFile(VALIDATE_CONFIG.CHANGELOG_PATH, "changelog", changelogSchema, null);
+  const trackManifest = loadFile(
+    SCAN_CONFIG.TRACK_MANIFEST_PATH,
+    "localTrackManifest",
+    localTrackManifestSchema,
+    "pnpm tracks",
+  );
+  const collages = loadFile(
+    COLLAGE_CONFIG.MANIFEST_PATH,
+    "collageManifest",
+    collageManifestSchema,
+    "pnpm collages",
+  );
+  const spotifyArtists = loadFile(
+    SPOTIFY_CONFIG.MANIFEST_PATH,
+    "spotifyArtistManifest",
+    spotifyArtistManifestSchema,
+    "pnpm spotify",
+  );
+  const spotifyAlbums = loadFile(
+    SPOTIFY_CONFIG.ALBUM_MANIFEST_PATH,
+    "spotifyAlbumManifest",
+    spotifyAlbumManifestSchema,
+    "pnpm spotify-albums",
+  );
+
+  if (library) {
+    const owners = collectAlbumSlugs(library);
+    const artists = new Set<string>();
+    // Slugs and slug aliases of each artist, by slug
+    const artistSlugs = new Map<string, string>();
+    forEachArtist(library, (artist) => {
+      artists.add(artist.slug);
+      for (const slug of [artist.slug, ...(artist.slugAliases ?? [])]) {
+        artistSlugs.set(slug, artist.slug);
+      }
+    });
+
+    checkLibrary(musicDataFile, library, owners);
+    const urls = collectPageUrls(library);
+    for (const [file, index] of searchIndexes) {
+      if (index) checkSearchIndex(file, index, urls);
+    }
+    if (artManifest) checkArtManifest(ART_CONFIG.MANIFEST_PATH, artManifest, owners);
+    if (trackManifest) checkTrackManifest(SCAN_CONFIG.TRACK_MANIFEST_PATH, trackManifest, owners);
+    if (collages) checkCollages(COLLAGE_CONFIG.MANIFEST_PATH, collages, owners, artists, urls);
+    if (spotifyArtists)
+      checkSpotifyArtists(SPOTIFY_CONFIG.MANIFEST_PATH, spotifyArtists, artistSlugs);
+    if (spotifyAlbums) {
+      checkSpotifyAlbums(SPOTIFY_CONFIG.ALBUM_MANIFEST_PATH, spotifyAlbums, owners, artistSlugs);
+    }
+  } else {
+    notes.push(`Reference checks skipped: ${musicDataFile} is not valid`);
+  }
+  if (changelog) checkChangelog(VALIDATE_CONFIG.CHANGELOG_PATH, changelog);
+
+  printReport();
+
+  const total = [...issues.values()].reduce((sum, list) => sum + list.length, 0);
+  if (total > 0) {
+    console.error(`\nValidation failed: ${total} problem${total === 1 ? "" : "s"}.`);
+    return { ok: false, problems: total };
+  }
+  console.log("\nAll generated data is valid.");
+  return { ok: true, problems: 0, files: checkedFiles.length };
+}
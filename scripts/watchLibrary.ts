@@ -0,0 +1,307 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AstroIntegration, AstroIntegrationLogger, HookParameters } from "astro";
+import type { CommandResult } from "./commandOptions.js";
+import { readGeneratedFile } from "./generatedData.js";
+import { getLibraryConfigPath } from "./libraryConfig.js";
+import { SCAN_CONFIG } from "./scanConfig.js";
+import { loadEnvVar } from "./spotify/spotifyAuth.js";
+import { folderKey, forEachArtistAndCompilation } from "./traversal.js";
+import type { Album, MusicLibrary } from "./types.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, "..");
+
+const WATCH_CONFIG = {
+  // Wait for changes to settle (e.g. an album still being copied) before regenerating
+  DEBOUNCE_MS: 1500,
+
+  // A failed run is retried after RETRY_MS, doubling per failure up to RETRY_MAX_MS
+  RETRY_MS: 5000,
+  RETRY_MAX_MS: 5 * 60 * 1000,
+
+  // Files read by `mlb parse` that are edited by hand (relative to project root)
+  DATA_FILES: ["data/overrides.json"],
+
+  // Generated files the site imports; their modules are reloaded after a run
+  GENERATED_FILES: [
+    "data/generated/musicData.json",
+    "data/generated/albumArtManifest.json",
+    "data/generated/collageManifest.json",
+    "data/generated/changelog.json",
+  ],
+};
+
+type DevServer = HookParameters<"astro:server:setup">["server"];
+
+// ─── Commands ───────────────────────────────────────────────────────────
+
+const TSX_CLI = createRequire(import.meta.url).resolve("tsx/cli");
+
+/**
+ * Run an `mlb` command in a child process, so each run starts from fresh module
+ * state. Its log is shown only when it fails.
+ */
+function runCommand(args: string[], logger: AstroIntegrationLogger): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const child = spawn(process.execPath, [TSX_CLI, "scripts/mlb.ts", ...args, "--json"], {
+      cwd: ROOT,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("close", (code) => {
+      let result: CommandResult = { ok: false };
+      try {
+        result = JSON.parse(stdout);
+      } catch {
+        // Exited before printing a summary
+      }
+      if (code !== 0 || !result.ok) {
+        logger.error(`mlb ${args.join(" ")} failed:\n${stderr.trim()}`);
+        result.ok = false;
+      }
+      resolve(result);
+    });
+  });
+}
+
+// ─── Changes ────────────────────────────────────────────────────────────
+
+/**
+ * Folder to rescan for a changed path below the library root: the path itself
+ * for a folder or a deleted entry (`mlb scan` tells deleted files from
+ * folders), its folder for a file.
+ */
+function changedFolder(musicRoot: string, relativePath: string): string {
+  try {
+    if (fs.statSync(path.join(musicRoot, relativePath)).isDirectory()) return relativePath;
+    return path.dirname(relativePath);
+  } catch {
+    return relativePath;
+  }
+}
+
+/** Drop folders inside another changed folder, as rescanning the outer one covers them */
+function outermostFolders(folders: Set<string>): string[] {
+  const sorted = [...folders].map((folder) => folder.split(path.sep).join("/")).sort();
+  return sorted.filter(
+    (folder, i) => !sorted.slice(0, i).some((outer) => folder.startsWith(`${outer}/`)),
+  );
+}
+
+/**
+ * The top-level genre every folder is in, so `mlb parse --genre` can parse just
+ * that genre; null when they span several or the library root itself changed.
+ */
+function changedGenre(folders: string[]): string | null {
+  const genres = new Set(folders.map((folder) => folder.split("/")[0]));
+  const [genre] = genres;
+  return genres.size === 1 && genre !== "." ? genre : null;
+}
+
+function isInside(album: Album, folders: string[]): boolean {
+  const key = folderKey(album.folderPath);
+  return folders.some(
+    (folder) => key === folder || key.startsWith(`${folder}/`) || folder.startsWith(`${key}/`),
+  );
+}
+
+/**
+ * Slugs of the artists and compilations with an album in (or containing) one
+ * of `folders`, to process art for only those.
+ */
+function ownersWithChanges(folders: string[]): string[] {
+  const musicData = readGeneratedFile<MusicLibrary>(
+    path.join(ROOT, "data", "generated", "musicData.json"),
+    "musicData",
+  );
+  const owners = new Set<string>();
+  forEachArtistAndCompilation(
+    musicData,
+    (artist) => {
+      if (artist.albums.some((album) => isInside(album, folders))) owners.add(artist.slug);
+    },
+    (comp) => {
+      if (comp.albums.some((album) => isInside(album, folders))) owners.add(comp.slug);
+    },
+  );
+  return [...owners];
+}
+
+// ─── Watcher ────────────────────────────────────────────────────────────
+
+/**
+ * Regenerate data for changes collected while the dev server runs. Changes that
+ * arrive during a run are handled by the next one. When a run fails its changes
+ * are kept and retried with backoff, or sooner along with the next change.
+ */
+function createRegenerator(server: DevServer, logger: AstroIntegrationLogger) {
+  const musicRoot = loadEnvVar("MUSIC_LIBRARY_ROOT");
+  const changedFolders = new Set<string>();
+  let dataFilesChanged = false;
+  let running = false;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function reload() {
+    for (const file of WATCH_CONFIG.GENERATED_FILES) {
+      for (const module of server.moduleGraph.getModulesByFile(path.join(ROOT, file)) ?? []) {
+        server.moduleGraph.invalidateModule(module);
+      }
+    }
+    server.ws.send({ type: "full-reload" });
+  }
+
+  async function regenerate() {
+    if (running) return;
+    running = true;
+
+    const folders = outermostFolders(changedFolders);
+    const dataChanged = dataFilesChanged;
+    changedFolders.clear();
+    dataFilesChanged = false;
+    let done = false;
+
+    try {
+      // Owners before the change too, so art of deleted albums is dropped
+      const libraryChanged = Boolean(musicRoot) && folders.length > 0;
+      const owners = new Set(libraryChanged ? ownersWithChanges(folders) : []);
+
+      if (libraryChanged) {
+        logger.info(`Library changed: ${folders.join(", ")}`);
+        const scanArgs = folders.flatMap((folder) => ["--folder", folder]);
+        if (!(await runCommand(["scan", ...scanArgs], logger)).ok) return;
+      }
+
+      // Overrides and the library config can affect any genre
+      const genre = dataChanged ? null : changedGenre(folders);
+      const parsed = await runCommand(["parse", ...(genre ? ["--genre", genre] : [])], logger);
+      if (!parsed.ok) return;
+      logger.info(`Regenerated data: ${parsed.totalArtists} artists, ${parsed.totalAlbums} albums`);
+
+      if (libraryChanged) {
+        for (const slug of ownersWithChanges(folders)) owners.add(slug);
+      }
+      if (owners.size > 0) {
+        const only = [...owners].flatMap((slug) => ["--only", slug]);
+        const art = await runCommand(["art", ...only], logger);
+        if (art.ok) logger.info(`Processed art for ${art.albums} albums`);
+      }
+      // Only collages whose covers changed are rebuilt
+      const collages = await runCommand(["collages"], logger);
+      if (collages.ok && collages.built) logger.info(`Rebuilt ${collages.built} collages`);
+
+      reload();
+      done = true;
+    } catch (err) {
+      logger.error(`Regenerating data failed: ${(err as Error).message}`);
+    } finally {
+      running = false;
+      if (!done) {
+        for (const folder of folders) changedFolders.add(folder);
+        dataFilesChanged ||= dataChanged;
+        retry();
+      } else {
+        failures = 0;
+        if (changedFolders.size > 0 || dataFilesChanged) schedule();
+      }
+    }
+  }
+
+  function schedule(delayMs = WATCH_CONFIG.DEBOUNCE_MS) {
+    clearTimeout(timer);
+    timer = setTimeout(regenerate, delayMs);
+  }
+
+  function retry() {
+    const delayMs = Math.min(WATCH_CONFIG.RETRY_MS * 2 ** failures, WATCH_CONFIG.RETRY_MAX_MS);
+    failures++;
+    const pending = [
+      ...outermostFolders(changedFolders),
+      ...(dataFilesChanged ? ["data files"] : []),
+    ];
+    logger.warn(
+      `Changes pending (${pending.join(", ")}), retrying in ${Math.round(delayMs / 1000)}s`,
+    );
+    schedule(delayMs);
+  }
+
+  return {
+    libraryChanged(relativePath: string) {
+      if (!musicRoot) return;
+      // The scanner skips hidden files and folders
+      if (relativePath.split(path.sep).some((segment) => segment.startsWith("."))) return;
+      changedFolders.add(changedFolder(musicRoot, relativePath));
+      schedule();
+    },
+    dataChanged() {
+      dataFilesChanged = true;
+      schedule();
+    },
+    stop() {
+      clearTimeout(timer);
+    },
+  };
+}
+
+// ─── Integration ────────────────────────────────────────────────────────
+
+/**
+ * Keep generated data live during `astro dev`. Watches MUSIC_LIBRARY_ROOT when
+ * set (otherwise data/folderHierarchy.json) plus overrides and the library
+ * config; on a change it rescans the changed folders, re-parses their genre,
+ * processes art for the affected artists and reloads the browser.
+ */
+export function watchLibrary(): AstroIntegration {
+  let libraryWatcher: fs.FSWatcher | undefined;
+  let regenerator: ReturnType<typeof createRegenerator> | undefined;
+
+  return {
+    name: "music-library-watch",
+    hooks: {
+      "astro:server:setup": ({ server, logger }) => {
+        const musicRoot = loadEnvVar("MUSIC_LIBRARY_ROOT");
+        const active = createRegenerator(server, logger);
+        regenerator = active;
+
+        const dataFiles = [
+          ...WATCH_CONFIG.DATA_FILES,
+          path.relative(ROOT, getLibraryConfigPath()),
+          // Written by `mlb scan` itself when the library is watched
+          ...(musicRoot ? [] : [SCAN_CONFIG.HIERARCHY_PATH]),
+        ].map((file) => path.join(ROOT, file));
+        server.watcher.add(dataFiles);
+        server.watcher.on("change", (file) => {
+          if (dataFiles.includes(file)) active.dataChanged();
+        });
+
+        if (musicRoot && fs.existsSync(musicRoot)) {
+          try {
+            libraryWatcher = fs.watch(musicRoot, { recursive: true }, (_event, file) => {
+              if (file) active.libraryChanged(file.toString());
+            });
+            logger.info(`Watching ${musicRoot} for changes`);
+          } catch (err) {
+            logger.warn(`Cannot watch ${musicRoot}: ${(err as Error).message}`);
+          }
+        } else {
+          logger.info(`Watching ${SCAN_CONFIG.HIERARCHY_PATH} (MUSIC_LIBRARY_ROOT not set)`);
+        }
+      },
+      "astro:server:done": () => {
+        libraryWatcher?.close();
+        regenerator?.stop();
+      },
+    },
+  };
+}
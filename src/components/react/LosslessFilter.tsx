@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "losslessOnly";
+
+/**
+ * Toggle that hides every element marked data-lossless="false" (see global.css).
+ * The choice is remembered across pages.
+ */
+export default function LosslessFilter() {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    setEnabled(localStorage.getItem(STORAGE_KEY) === "true");
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.toggleAttribute("data-lossless-only", enabled);
+    localStorage.setItem(STORAGE_KEY, String(enabled));
+  }, [enabled]);
+
+  return (
+    <label className="inline-flex cursor-pointer items-center gap-2 text-sm text-gray-400 hover:text-gray-300">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => setEnabled(e.target.checked)}
+        className="h-4 w-4 accent-[#6366f1]"
+      />
+      Lossless only
+    </label>
+  );
+}
@@ -1,20 +1,9 @@
 import Fuse from "fuse.js";
 import { useCallback, useEffect, useRef, useState } from "react";
+import type { SearchEntry, SearchIndex } from "../../../scripts/types";
+import { migrateData } from "../../lib/dataMigrations";
 import CountryFlag from "./CountryFlag";
 
-interface SearchEntry {
-  type: "artist" | "album" | "genre";
-  name: string;
-  artist?: string;
-  country?: string | null;
-  isoCodes?: string[];
-  year?: number | null;
-  genrePath: string;
-  slug: string;
-  url: string;
-  albumCount?: number;
-}
-
 interface Props {
   onClose: () => void;
 }
@@ -31,11 +20,14 @@ export default function SearchOverlay({ onClose }: Props) {
   useEffect(() => {
     fetch("/searchIndex.json")
       .then((r) => r.json())
-      .then((data: SearchEntry[]) => {
-        fuseRef.current = new Fuse(data, {
+      .then((data: unknown) => {
+        const { entries } = migrateData<SearchIndex>("searchIndex", data);
+        fuseRef.current = new Fuse(entries, {
           keys: [
             { name: "name", weight: 2 },
+            { name: "altName", weight: 2 },
             { name: "artist", weight: 1.5 },
+            { name: "altArtist", weight: 1.5 },
             { name: "country", weight: 0.5 },
             { name: "genrePath", weight: 0.5 },
           ],
@@ -91,12 +83,14 @@ export default function SearchOverlay({ onClose }: Props) {
 
   const typeLabels: Record<string, string> = {
     artist: "Artist",
+    compilation: "VA",
     album: "Album",
     genre: "Genre",
   };
 
   const typeColors: Record<string, string> = {
     artist: "text-indigo-400",
+    compilation: "text-cyan-400",
     album: "text-emerald-400",
     genre: "text-amber-400",
   };
@@ -194,7 +188,7 @@ export default function SearchOverlay({ onClose }: Props) {
                   {result.genrePath}
                 </div>
               </div>
-              {result.type === "artist" && result.albumCount && (
+              {(result.type === "artist" || result.type === "compilation") && result.albumCount && (
                 <span className="ml-auto shrink-0 text-xs text-gray-600">
                   {result.albumCount} albums
                 </span>
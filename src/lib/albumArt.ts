@@ -1,17 +1,73 @@
-import type { ArtManifest } from "./albumArtTypes";
+import { ART_MIME_TYPES, artFileName } from "./albumArtFiles";
+import type { ArtFormat, ArtManifest, ArtManifestEntry } from "./albumArtTypes";
+import { SCHEMA_VERSIONS } from "./dataMigrations";
 import { loadManifest } from "./manifestLoader";
 
 const manifest = await loadManifest<ArtManifest>(
+  "albumArtManifest",
   () => import("../../data/generated/albumArtManifest.json"),
-  { entries: {} },
+  {
+    schemaVersion: SCHEMA_VERSIONS.albumArtManifest,
+    generatedAt: "",
+    musicLibraryRoot: "",
+    totalAlbums: 0,
+    albumsWithArt: 0,
+    albumsWithoutArt: 0,
+    entries: {},
+  },
 );
 
-export function getAlbumArtUrl(artistSlug: string, albumSlug: string): string | null {
-  const artistEntries = manifest.entries?.[artistSlug];
-  if (!artistEntries) return null;
+/** Width of the fallback `src` for browsers without srcset */
+const DEFAULT_WIDTH = 500;
 
-  const entry = artistEntries[albumSlug];
+/** Album art for a `<picture>`: one `<source>` per format, plus a fallback image */
+export interface AlbumArtSources {
+  src: string;
+  sources: { type: string; srcset: string }[];
+  /** Data URI and colour to paint until the image loads */
+  placeholder?: string;
+  color?: string;
+}
+
+function getEntry(artistSlug: string, albumSlug: string): ArtManifestEntry | null {
+  return manifest.entries?.[artistSlug]?.[albumSlug] ?? null;
+}
+
+function fileUrl(entry: ArtManifestEntry, size: number | null, format: ArtFormat): string {
+  return `/album-art/${entry.artistSlug}/${artFileName(entry.albumSlug, size, format)}`;
+}
+
+/**
+ * WebP URL of an album's art in the smallest size at least `width` wide (or
+ * the largest there is).
+ */
+export function getAlbumArtUrl(
+  artistSlug: string,
+  albumSlug: string,
+  width = DEFAULT_WIDTH,
+): string | null {
+  const entry = getEntry(artistSlug, albumSlug);
   if (!entry) return null;
+  if (entry.sizes.length === 0) return fileUrl(entry, null, "webp");
+
+  const size = entry.sizes.find((s) => s >= width) ?? entry.sizes[entry.sizes.length - 1];
+  return fileUrl(entry, size, "webp");
+}
+
+/**
+ * Every size and format of an album's art, for `srcset`.
+ */
+export function getAlbumArt(artistSlug: string, albumSlug: string): AlbumArtSources | null {
+  const entry = getEntry(artistSlug, albumSlug);
+  if (!entry) return null;
+
+  const src = getAlbumArtUrl(artistSlug, albumSlug) as string;
+  const { placeholder, color } = entry;
+  if (entry.sizes.length === 0) return { src, sources: [], placeholder, color };
 
-  return `/album-art/${artistSlug}/${albumSlug}.webp`;
+  const sources = entry.formats.map((format) => ({
+    type: ART_MIME_TYPES[format],
+    srcset: entry.sizes.map((size) => `${fileUrl(entry, size, format)} ${size}w`).join(", "),
+  }));
+  return { src, sources, placeholder, color };
 }
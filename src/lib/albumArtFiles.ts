@@ -0,0 +1,24 @@
+import type { ArtFormat, ArtManifestEntry } from "./albumArtTypes";
+
+export const ART_MIME_TYPES: Record<ArtFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+};
+
+/**
+ * File name of one rendition of an album's art, e.g. "ride-the-lightning-1984-200.avif".
+ * Without a size it is the single file older runs wrote ("ride-the-lightning-1984.webp").
+ */
+export function artFileName(albumSlug: string, size: number | null, format: ArtFormat): string {
+  return size === null ? `${albumSlug}.${format}` : `${albumSlug}-${size}.${format}`;
+}
+
+/**
+ * Every file written for a manifest entry, relative to its owner's art folder.
+ */
+export function artFileNames(entry: ArtManifestEntry): string[] {
+  if (entry.sizes.length === 0) return [artFileName(entry.albumSlug, null, "webp")];
+  return entry.sizes.flatMap((size) =>
+    entry.formats.map((format) => artFileName(entry.albumSlug, size, format)),
+  );
+}
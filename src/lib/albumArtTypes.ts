@@ -1,9 +1,33 @@
+export type ArtFormat = "avif" | "webp";
+
+/** Where an album's art came from */
+export type ArtSource = "file" | "embedded" | "spotify";
+
 export interface ArtManifestEntry {
   artistSlug: string;
   albumSlug: string;
+  source: ArtSource;
+  /**
+   * The image file, the audio file (relative to the album folder) whose tags
+   * hold the picture, or "spotify"
+   */
   sourceFile: string;
+  /** Widths rendered, smallest first; empty for the single 500px WebP of older runs */
+  sizes: number[];
+  /** Formats each width is rendered in, preferred first */
+  formats: ArtFormat[];
+  /** A tiny WebP data URI painted while the art loads; missing before version 4 */
+  placeholder?: string;
+  /** Dominant colour as "#rrggbb"; missing before version 4 */
+  color?: string;
 }
 
 export interface ArtManifest {
+  schemaVersion: number;
+  generatedAt: string;
+  musicLibraryRoot: string;
+  totalAlbums: number;
+  albumsWithArt: number;
+  albumsWithoutArt: number;
   entries: Record<string, Record<string, ArtManifestEntry>>;
 }
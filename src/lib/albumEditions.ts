@@ -0,0 +1,27 @@
+import type { Album, AlbumEdition } from "../../scripts/types";
+
+/**
+ * One entry per work: drops editions that are grouped under a master release.
+ */
+export function getMasterReleases(albums: Album[]): Album[] {
+  return albums.filter((album) => !album.masterSlug);
+}
+
+/**
+ * Editions of the work an album belongs to (master first), or an empty list
+ * when it is the only one we own.
+ */
+export function getEditions(album: Album, albums: Album[]): AlbumEdition[] {
+  if (album.editions) return album.editions;
+  const master = albums.find((a) => a.slug === album.masterSlug);
+  return master?.editions ?? [];
+}
+
+/**
+ * Short description of an edition, e.g. "Original 1994" or "Remaster 2006".
+ */
+export function getEditionLabel(edition: AlbumEdition): string {
+  const label = edition.reissue ?? (edition.reissueYear ? "Reissue" : "Original");
+  const year = edition.reissueYear ?? edition.year;
+  return year ? `${label} ${year}` : label;
+}
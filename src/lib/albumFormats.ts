@@ -0,0 +1,45 @@
+import type { Album, AlbumFormat } from "../../scripts/types";
+
+export function isLossless(album: Album): boolean {
+  return album.formats.some((format) => format.lossless);
+}
+
+/** Whether the lossless filter shows a master release: it or any of its editions is lossless */
+export function isLosslessRelease(album: Album): boolean {
+  return isLossless(album) || (album.editions ?? []).some((edition) => edition.lossless);
+}
+
+/**
+ * Short label for one copy: its folder name marker, else its file types.
+ */
+export function getFormatLabel(format: AlbumFormat): string | null {
+  if (format.markers.length > 0) return format.markers.join(" · ");
+  if (format.extensions.length > 0) {
+    return format.extensions.map((ext) => ext.slice(1).toUpperCase()).join("/");
+  }
+  return null;
+}
+
+/**
+ * Distinct format badges for an album, one per labelled copy.
+ */
+export function getFormatBadges(album: Album): { label: string; lossless: boolean }[] {
+  const badges = new Map<string, boolean>();
+  for (const format of album.formats) {
+    const label = getFormatLabel(format);
+    if (label) badges.set(label, (badges.get(label) ?? false) || format.lossless);
+  }
+  return [...badges].map(([label, lossless]) => ({ label, lossless }));
+}
+
+/**
+ * Whether an album card should show its formats: only when there is more
+ * than one copy or a lossless one, so plain MP3 albums stay uncluttered.
+ */
+export function showFormatBadges(album: Album): boolean {
+  return album.formats.length > 1 || isLossless(album);
+}
+
+export function getFormatColor(lossless: boolean): string {
+  return lossless ? "bg-sky-500/20 text-sky-400" : "bg-gray-500/20 text-gray-400";
+}
@@ -0,0 +1,37 @@
+import type { Album, Artist, ArtistEra } from "../../scripts/types";
+
+/**
+ * Albums from one era's folder, in the artist's release order.
+ */
+export function getEraAlbums(artist: Artist, era: ArtistEra): Album[] {
+  const slugs = new Set(era.albumSlugs);
+  return artist.albums.filter((album) => slugs.has(album.slug));
+}
+
+/**
+ * Eras of an artist filed under the genre folder at `genrePath`; empty when
+ * the artist has no eras.
+ */
+export function getErasInGenre(artist: Artist, genrePath: string[]): ArtistEra[] {
+  const key = genrePath.join("/");
+  return (artist.eras ?? []).filter((era) => era.genrePath.join("/") === key);
+}
+
+/**
+ * Albums of an artist filed under the genre folder at `genrePath` or its
+ * subgenres. A merged artist is listed in each of its genres with all albums.
+ */
+export function getAlbumsInGenre(artist: Artist, genrePath: string[]): Album[] {
+  return artist.albums.filter((album) =>
+    genrePath.every((part, i) => album.folderPath[i] === part),
+  );
+}
+
+/**
+ * Heading of an era section, e.g. "Early"; the genre for the untagged folder.
+ */
+export function getEraLabel(era: ArtistEra): string {
+  if (era.tags.length === 0) return era.genrePath[era.genrePath.length - 1];
+  const label = era.tags.join(", ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -0,0 +1,88 @@
+import type { Changelog, LibraryChange } from "./changelogTypes";
+import { SCHEMA_VERSIONS } from "./dataMigrations";
+import { loadManifest } from "./manifestLoader";
+import { getAllArtists, getAllCompilations } from "./musicData";
+
+const changelog = await loadManifest<Changelog>(
+  "changelog",
+  () => import("../../data/generated/changelog.json"),
+  { schemaVersion: SCHEMA_VERSIONS.changelog, updatedAt: "", changes: [] },
+);
+
+export interface ChangeDay {
+  /** Calendar date (YYYY-MM-DD, UTC) */
+  date: string;
+  changes: LibraryChange[];
+}
+
+/**
+ * Changes from the last `days` days before the most recent generation,
+ * grouped by calendar date, newest first.
+ */
+export function getRecentChanges(days: number): ChangeDay[] {
+  if (!changelog.updatedAt) return [];
+  const cutoff = Date.parse(changelog.updatedAt) - days * 24 * 60 * 60 * 1000;
+
+  const byDate = new Map<string, LibraryChange[]>();
+  for (const change of changelog.changes) {
+    if (Date.parse(change.timestamp) < cutoff) continue;
+    const date = change.timestamp.slice(0, 10);
+    const changes = byDate.get(date) ?? [];
+    changes.push(change);
+    byDate.set(date, changes);
+  }
+
+  return [...byDate.entries()]
+    .sort((a, b) => b[0].localeCompare(a[0]))
+    .map(([date, changes]) => ({ date, changes }));
+}
+
+/**
+ * Artist, compilation and album pages in the library, including those that
+ * redirect from former slugs.
+ */
+function collectPages(): Set<string> {
+  const pages = new Set<string>();
+  const addOwner = (base: string, slugs: string[], albumSlugs: string[]) => {
+    for (const slug of slugs) {
+      pages.add(`${base}/${slug}`);
+      for (const albumSlug of albumSlugs) pages.add(`${base}/${slug}/${albumSlug}`);
+    }
+  };
+
+  for (const artist of getAllArtists()) {
+    const albumSlugs = artist.albums.map((album) => album.slug).filter(Boolean);
+    addOwner("/artist", [artist.slug, ...(artist.slugAliases ?? [])], albumSlugs);
+  }
+  for (const comp of getAllCompilations()) {
+    const albumSlugs = comp.albums.map((album) => album.slug).filter(Boolean);
+    const aliases = comp.slugAliases ?? [];
+    addOwner("/compilation", [comp.slug, ...aliases], albumSlugs);
+    // Compilation folders once listed as artists
+    addOwner("/artist", aliases, albumSlugs);
+  }
+  return pages;
+}
+
+const pages = collectPages();
+
+/**
+ * Page to link a change to, or null when it no longer exists in the library,
+ * e.g. an artist added and later removed.
+ */
+export function getChangeUrl(change: LibraryChange): string | null {
+  if (change.kind === "removed") return null;
+  let url: string;
+  switch (change.entity) {
+    case "artist":
+      url = `/artist/${change.slug}`;
+      break;
+    case "album":
+      url = `/${change.parentEntity ?? "artist"}/${change.parentSlug}/${change.slug}`;
+      break;
+    case "compilation":
+      url = `/compilation/${change.slug}`;
+      break;
+  }
+  return pages.has(url) ? url : null;
+}
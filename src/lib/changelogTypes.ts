@@ -0,0 +1,33 @@
+export type ChangeKind = "added" | "removed" | "moved" | "renamed";
+
+export type ChangeEntity = "artist" | "compilation" | "album";
+
+export interface LibraryChange {
+  /** When the generation that detected the change ran (ISO 8601) */
+  timestamp: string;
+  kind: ChangeKind;
+  entity: ChangeEntity;
+  name: string;
+  slug: string;
+  genrePath: string[];
+  /** Owning artist or compilation (albums only) */
+  parentName?: string;
+  parentSlug?: string;
+  parentEntity?: "artist" | "compilation";
+  year?: number | null;
+  /** State before the change (moved and renamed only) */
+  previous?: {
+    name: string;
+    slug: string;
+    genrePath: string[];
+    parentName?: string;
+    parentSlug?: string;
+  };
+}
+
+export interface Changelog {
+  schemaVersion: number;
+  updatedAt: string;
+  /** Oldest first; each generation appends its changes */
+  changes: LibraryChange[];
+}
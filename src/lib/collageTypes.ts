@@ -0,0 +1,15 @@
+export interface CollageEntry {
+  /** Image path below /collages, e.g. "genre/metal/doom.webp" */
+  file: string;
+  /** Covers the image is made of, as "<owner slug>/<album slug>", in tile order */
+  covers: string[];
+}
+
+export interface CollageManifest {
+  schemaVersion: number;
+  generatedAt: string;
+  /** Collage of each artist's covers, keyed by artist slug */
+  artists: Record<string, CollageEntry>;
+  /** Mosaic sampled across each genre's artists, keyed by genre path, e.g. "metal/doom" */
+  genres: Record<string, CollageEntry>;
+}
@@ -0,0 +1,29 @@
+import type { CollageEntry, CollageManifest } from "./collageTypes";
+import { SCHEMA_VERSIONS } from "./dataMigrations";
+import { loadManifest } from "./manifestLoader";
+import { slugify } from "./slugify";
+
+const manifest = await loadManifest<CollageManifest>(
+  "collageManifest",
+  () => import("../../data/generated/collageManifest.json"),
+  {
+    schemaVersion: SCHEMA_VERSIONS.collageManifest,
+    generatedAt: "",
+    artists: {},
+    genres: {},
+  },
+);
+
+function collageUrl(entry: CollageEntry | undefined): string | null {
+  return entry ? `/collages/${entry.file}` : null;
+}
+
+/** URL of the collage built from an artist's album covers */
+export function getArtistCollageUrl(artistSlug: string): string | null {
+  return collageUrl(manifest.artists?.[artistSlug]);
+}
+
+/** URL of the mosaic of a genre, from its path of names, e.g. ["Metal", "Doom"] */
+export function getGenreMosaicUrl(genrePath: string[]): string | null {
+  return collageUrl(manifest.genres?.[genrePath.map((name) => slugify(name)).join("/")]);
+}
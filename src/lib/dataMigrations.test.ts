@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getSchemaVersion,
+  migrateData,
+  SCHEMA_VERSIONS,
+  SchemaVersionError,
+} from "./dataMigrations";
+
+describe("getSchemaVersion", () => {
+  it("reads the version and treats files without one as version 0", () => {
+    assert.equal(getSchemaVersion({ schemaVersion: 3 }), 3);
+    assert.equal(getSchemaVersion({ schemaVersion: "3" }), 0);
+    assert.equal(getSchemaVersion({}), 0);
+    assert.equal(getSchemaVersion([]), 0);
+    assert.equal(getSchemaVersion(null), 0);
+  });
+});
+
+describe("migrateData", () => {
+  it("returns current files unchanged", () => {
+    const changelog = { schemaVersion: SCHEMA_VERSIONS.changelog, updatedAt: "", changes: [] };
+    assert.deepEqual(migrateData("changelog", changelog), changelog);
+  });
+
+  it("stamps version 0 files with the current version", () => {
+    assert.deepEqual(migrateData("slugReport", { artists: [] }), {
+      artists: [],
+      schemaVersion: SCHEMA_VERSIONS.slugReport,
+    });
+  });
+
+  it("wraps the bare array of a version 0 search index", () => {
+    assert.deepEqual(migrateData("searchIndex", [{ slug: "candlemass-swe" }]), {
+      entries: [{ slug: "candlemass-swe" }],
+      schemaVersion: SCHEMA_VERSIONS.searchIndex,
+    });
+  });
+
+  it("fills in release dates of version 1 music data from the year", () => {
+    const library = migrateData<{ schemaVersion: number; genres: unknown[] }>("musicData", {
+      schemaVersion: 1,
+      genres: [
+        {
+          artists: [
+            {
+              albums: [
+                { year: 1986 },
+                { year: null },
+                { year: 1987, releaseDate: { year: 1987, month: 2 } },
+              ],
+            },
+          ],
+          compilations: [],
+          subgenres: [{ artists: [], compilations: [{ albums: [{ year: 1990 }] }], subgenres: [] }],
+        },
+      ],
+    });
+
+    assert.equal(library.schemaVersion, SCHEMA_VERSIONS.musicData);
+    assert.deepEqual(library.genres, [
+      {
+        artists: [
+          {
+            albums: [
+              { year: 1986, releaseDate: { year: 1986 } },
+              { year: null, releaseDate: null },
+              { year: 1987, releaseDate: { year: 1987, month: 2 } },
+            ],
+          },
+        ],
+        compilations: [],
+        subgenres: [
+          {
+            artists: [],
+            compilations: [{ albums: [{ year: 1990, releaseDate: { year: 1990 } }] }],
+            subgenres: [],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("upgrades a version 0 art manifest through every step", () => {
+    const manifest = migrateData<{ schemaVersion: number; entries: unknown }>("albumArtManifest", {
+      entries: {
+        "candlemass-swe": {
+          "nightfall-1987": { file: "a.webp", sourceFile: "cover.jpg" },
+          "epicus-1986": { file: "b.webp", sourceFile: "spotify" },
+        },
+      },
+    });
+
+    assert.equal(manifest.schemaVersion, SCHEMA_VERSIONS.albumArtManifest);
+    assert.deepEqual(manifest.entries, {
+      "candlemass-swe": {
+        "nightfall-1987": {
+          sizes: [],
+          formats: ["webp"],
+          file: "a.webp",
+          sourceFile: "cover.jpg",
+          source: "file",
+        },
+        "epicus-1986": {
+          sizes: [],
+          formats: ["webp"],
+          file: "b.webp",
+          sourceFile: "spotify",
+          source: "spotify",
+        },
+      },
+    });
+  });
+
+  it("rejects version 0 music data, which only a new parse can rebuild", () => {
+    assert.throws(
+      () => migrateData("musicData", { genres: [] }),
+      (err) => err instanceof SchemaVersionError && !err.newer,
+    );
+  });
+
+  it("rejects files written by a newer version", () => {
+    assert.throws(
+      () => migrateData("changelog", { schemaVersion: SCHEMA_VERSIONS.changelog + 1 }),
+      (err) => err instanceof SchemaVersionError && err.newer,
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Current format version of each generated data file, written into the file
+ * as `schemaVersion`. When a file's shape changes, bump its version here and
+ * add the step that upgrades the previous version to MIGRATIONS, so files
+ * from earlier runs (e.g. Spotify manifests that took hours to fetch) keep
+ * loading. A step that cannot rebuild what a version added throws instead.
+ * folderHierarchy.json is a bare folder tree and has no version.
+ */
+export const SCHEMA_VERSIONS = {
+  musicData: 3,
+  searchIndex: 1,
+  changelog: 1,
+  slugRegistry: 2,
+  slugReport: 1,
+  parseReport: 2,
+  folderMetadata: 1,
+  scanReport: 1,
+  albumArtManifest: 4,
+  collageManifest: 1,
+  localTrackManifest: 2,
+  spotifyArtistManifest: 1,
+  spotifyAlbumManifest: 1,
+} as const;
+
+export type DataFile = keyof typeof SCHEMA_VERSIONS;
+
+/**
+ * A file whose version cannot be loaded: too old for a migration to upgrade,
+ * or `newer` when written by a newer version of the scripts.
+ */
+export class SchemaVersionError extends Error {
+  readonly newer: boolean;
+
+  constructor(message: string, newer: boolean) {
+    super(message);
+    this.name = "SchemaVersionError";
+    this.newer = newer;
+  }
+}
+
+type Migration = (data: unknown) => object;
+
+/** Version 0 files only lack the version field */
+const addVersion: Migration = (data) => data as object;
+
+/**
+ * Version 0 music data predates album formats, discs, extras and folder paths
+ * and artist genre paths, which only a new parse of the folder tree fills in
+ */
+const requireReparse: Migration = () => {
+  throw new SchemaVersionError(
+    "musicData predates schemaVersion and lacks fields added since. Re-run pnpm parse.",
+    false,
+  );
+};
+
+interface LibraryNodeV1 {
+  artists?: { albums: { year: number | null; releaseDate?: unknown }[] }[];
+  compilations?: { albums: { year: number | null; releaseDate?: unknown }[] }[];
+  subgenres?: LibraryNodeV1[];
+}
+
+/** Version 2 added Album.releaseDate; older albums only have their year */
+const addReleaseDates: Migration = (data) => {
+  const library = data as { genres: LibraryNodeV1[] };
+  function visit(node: LibraryNodeV1) {
+    for (const owner of [...(node.artists ?? []), ...(node.compilations ?? [])]) {
+      for (const album of owner.albums) {
+        album.releaseDate ??= album.year === null ? null : { year: album.year };
+      }
+    }
+    node.subgenres?.forEach(visit);
+  }
+  library.genres.forEach(visit);
+  return library;
+};
+
+/** Version 2 added sizes and formats; older entries are one 500px WebP each */
+const addArtSizes: Migration = (data) => {
+  const manifest = data as { entries: Record<string, Record<string, object>> };
+  for (const albums of Object.values(manifest.entries)) {
+    for (const [albumSlug, entry] of Object.entries(albums)) {
+      albums[albumSlug] = { sizes: [], formats: ["webp"], ...entry };
+    }
+  }
+  return manifest;
+};
+
+/** Version 3 added source; older art came from image files or Spotify */
+const addArtSource: Migration = (data) => {
+  const manifest = data as {
+    entries: Record<string, Record<string, { source?: string; sourceFile: string }>>;
+  };
+  for (const albums of Object.values(manifest.entries)) {
+    for (const entry of Object.values(albums)) {
+      entry.source ??= entry.sourceFile === "spotify" ? "spotify" : "file";
+    }
+  }
+  return manifest;
+};
+
+/**
+ * Upgrade steps per file: MIGRATIONS[file][n] turns version n into n + 1.
+ * Version 0 is a file written before `schemaVersion` existed.
+ */
+const MIGRATIONS: Record<DataFile, Migration[]> = {
+  // Version 3 added Artist.slugAliasFolders, set on merged artists by the next parse
+  musicData: [requireReparse, addReleaseDates, (data) => data as object],
+  // The index was a bare array of entries
+  searchIndex: [(data) => ({ entries: data })],
+  changelog: [addVersion],
+  // Version 2 added redirects
+  slugRegistry: [addVersion, (data) => data as object],
+  slugReport: [addVersion],
+  // Version 2 added unknownCountryCodes
+  parseReport: [addVersion, (data) => ({ unknownCountryCodes: {}, ...(data as object) })],
+  folderMetadata: [addVersion],
+  scanReport: [addVersion],
+  // Version 4 added placeholder and color, filled in when `mlb art` next runs
+  albumArtManifest: [addVersion, addArtSizes, addArtSource, (data) => data as object],
+  collageManifest: [addVersion],
+  // Version 2 added track size and mtimeMs, filled in when `mlb tracks` next reads the album
+  localTrackManifest: [addVersion, (data) => data as object],
+  spotifyArtistManifest: [addVersion],
+  spotifyAlbumManifest: [addVersion],
+};
+
+/**
+ * The `schemaVersion` a file was written with; 0 for files that predate it.
+ */
+export function getSchemaVersion(data: unknown): number {
+  if (data && typeof data === "object" && "schemaVersion" in data) {
+    const { schemaVersion } = data;
+    if (typeof schemaVersion === "number") return schemaVersion;
+  }
+  return 0;
+}
+
+/**
+ * Upgrade parsed file contents to the current version of `file`. Throws a
+ * SchemaVersionError when the file was written by a newer version of the
+ * scripts, rather than returning data whose shape is unknown.
+ */
+export function migrateData<T>(file: DataFile, raw: unknown): T {
+  const current = SCHEMA_VERSIONS[file];
+  let version = getSchemaVersion(raw);
+  if (version > current) {
+    throw new SchemaVersionError(
+      `${file} has schemaVersion ${version}, newer than the supported ${current}. Update the code or regenerate the file.`,
+      true,
+    );
+  }
+
+  let data = raw;
+  for (; version < current; version++) {
+    data = { ...MIGRATIONS[file][version](data), schemaVersion: version + 1 };
+  }
+  return data as T;
+}
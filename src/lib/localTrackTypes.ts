@@ -0,0 +1,30 @@
+export interface LocalTrack {
+  title: string;
+  trackNumber: number | null;
+  discNumber: number | null;
+  durationMs: number | null;
+  /** Average bitrate in kbps */
+  bitrate: number | null;
+  codec: string | null;
+  fileName: string;
+  /** File size in bytes when read; `mlb tracks` re-reads the album when it changes */
+  size?: number;
+  /** File modification time when read */
+  mtimeMs?: number;
+}
+
+export interface LocalTrackEntry {
+  artistSlug: string;
+  albumSlug: string;
+  tracks: LocalTrack[];
+  scannedAt: string;
+}
+
+export interface LocalTrackManifest {
+  schemaVersion: number;
+  generatedAt: string;
+  musicLibraryRoot: string;
+  totalAlbums: number;
+  albumsWithTracks: number;
+  entries: Record<string, Record<string, LocalTrackEntry>>;
+}
@@ -0,0 +1,20 @@
+import { SCHEMA_VERSIONS } from "./dataMigrations";
+import type { LocalTrackEntry, LocalTrackManifest } from "./localTrackTypes";
+import { loadManifest } from "./manifestLoader";
+
+const manifest = await loadManifest<LocalTrackManifest>(
+  "localTrackManifest",
+  () => import("../../data/generated/localTrackManifest.json"),
+  {
+    schemaVersion: SCHEMA_VERSIONS.localTrackManifest,
+    generatedAt: "",
+    musicLibraryRoot: "",
+    totalAlbums: 0,
+    albumsWithTracks: 0,
+    entries: {},
+  },
+);
+
+export function getLocalTrackData(artistSlug: string, albumSlug: string): LocalTrackEntry | null {
+  return manifest.entries?.[artistSlug]?.[albumSlug] ?? null;
+}
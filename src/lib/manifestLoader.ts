@@ -1,15 +1,21 @@
+import { type DataFile, migrateData } from "./dataMigrations";
+
 /**
- * Load a JSON manifest from data/generated/ with a fallback default.
+ * Load a JSON manifest from data/generated/ with a fallback default, upgraded
+ * to the current schema version of `file`.
  * Used by albumArt.ts, spotify.ts, spotifyAlbums.ts.
  */
 export async function loadManifest<T>(
+  file: DataFile,
   importFn: () => Promise<{ default: unknown }>,
   fallback: T,
 ): Promise<T> {
+  let raw: unknown;
   try {
-    const raw = await importFn();
-    return raw.default as T;
+    raw = (await importFn()).default;
   } catch {
     return fallback;
   }
+  // Outside the try: a manifest from a newer version must fail the build
+  return migrateData<T>(file, raw);
 }
@@ -1,7 +1,16 @@
 import musicDataRaw from "../../data/generated/musicData.json";
-import type { Artist, Genre, MusicLibrary, Subgenre } from "../../scripts/types";
-
-const musicData = musicDataRaw as unknown as MusicLibrary;
+import type {
+  Album,
+  Artist,
+  Compilation,
+  Genre,
+  MusicLibrary,
+  Subgenre,
+} from "../../scripts/types";
+import { getAlbumsInGenre } from "./artistEras";
+import { migrateData } from "./dataMigrations";
+
+const musicData = migrateData<MusicLibrary>("musicData", musicDataRaw);
 
 export function getLibrary(): MusicLibrary {
   return musicData;
@@ -41,22 +50,48 @@ export function getSubgenreByPath(
 }
 
 /**
- * Collect all artists from all genres/subgenres (flattened).
+ * Collect all artists from all genres/subgenres (flattened). Artists merged
+ * from several genre folders are listed in each genre but returned once.
  */
 export function getAllArtists(): Artist[] {
-  const artists: Artist[] = [];
+  const artists = new Map<string, Artist>();
+
+  function collect(list: Artist[]) {
+    for (const artist of list) {
+      if (!artists.has(artist.slug)) artists.set(artist.slug, artist);
+    }
+  }
 
   function collectFromSubgenre(sg: Subgenre) {
-    artists.push(...sg.artists);
+    collect(sg.artists);
     sg.subgenres.forEach(collectFromSubgenre);
   }
 
   for (const genre of musicData.genres) {
-    artists.push(...genre.artists);
+    collect(genre.artists);
     genre.subgenres.forEach(collectFromSubgenre);
   }
 
-  return artists;
+  return [...artists.values()];
+}
+
+/**
+ * Collect all Various Artists compilations from all genres/subgenres (flattened).
+ */
+export function getAllCompilations(): Compilation[] {
+  const compilations: Compilation[] = [];
+
+  function collectFromSubgenre(sg: Subgenre) {
+    compilations.push(...sg.compilations);
+    sg.subgenres.forEach(collectFromSubgenre);
+  }
+
+  for (const genre of musicData.genres) {
+    compilations.push(...genre.compilations);
+    genre.subgenres.forEach(collectFromSubgenre);
+  }
+
+  return compilations;
 }
 
 /**
@@ -66,36 +101,61 @@ export function getArtistBySlug(slug: string): Artist | undefined {
   return getAllArtists().find((a) => a.slug === slug);
 }
 
+/**
+ * Split and collaboration releases an artist appears on that are filed under
+ * another artist, with the artist they are filed under.
+ */
+export function getAppearances(artist: Artist): { album: Album; owner: Artist }[] {
+  return (artist.appearsOn ?? []).flatMap(({ artistSlug, albumSlug }) => {
+    const owner = getArtistBySlug(artistSlug);
+    const album = owner?.albums.find((a) => a.slug === albumSlug);
+    return owner && album ? [{ album, owner }] : [];
+  });
+}
+
 /**
  * Count artists and albums in a node with artists[] and subgenres[] properties.
+ * An artist listed in several nested subgenres is counted once, with only the
+ * albums filed under `path`.
  */
-function countTree(node: { artists: Artist[]; subgenres: Subgenre[] }): {
+function countTree(
+  node: { artists: Artist[]; subgenres: Subgenre[] },
+  path: string[],
+): {
   artists: number;
   albums: number;
 } {
-  let artists = node.artists.length;
-  let albums = node.artists.reduce((sum, a) => sum + a.albums.length, 0);
+  const seen = new Set<string>();
+  let albums = 0;
+
+  function countArtists(list: Artist[]) {
+    for (const artist of list) {
+      if (seen.has(artist.slug)) continue;
+      seen.add(artist.slug);
+      albums += getAlbumsInGenre(artist, path).length;
+    }
+  }
 
   function countSubgenre(sg: Subgenre) {
-    artists += sg.artists.length;
-    albums += sg.artists.reduce((sum, a) => sum + a.albums.length, 0);
+    countArtists(sg.artists);
     sg.subgenres.forEach(countSubgenre);
   }
 
+  countArtists(node.artists);
   node.subgenres.forEach(countSubgenre);
-  return { artists, albums };
+  return { artists: seen.size, albums };
 }
 
 /**
  * Count total artists and albums in a genre (including all subgenres).
  */
 export function getGenreCounts(genre: Genre): { artists: number; albums: number } {
-  return countTree(genre);
+  return countTree(genre, [genre.name]);
 }
 
 /**
  * Count total artists and albums in a subgenre (including nested subgenres).
  */
 export function getSubgenreCounts(sg: Subgenre): { artists: number; albums: number } {
-  return countTree(sg);
+  return countTree(sg, sg.fullPath);
 }
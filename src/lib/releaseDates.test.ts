@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Album, ReleaseDate } from "../../scripts/types";
+import { formatReleaseDate, formatReleaseYear, getYearSpan } from "./releaseDates";
+
+describe("formatReleaseYear", () => {
+  it("labels years, ranges and decades", () => {
+    assert.equal(formatReleaseYear({ year: 2004, month: 5 }), "2004");
+    assert.equal(formatReleaseYear({ year: 1990, endYear: 1995 }), "1990–1995");
+    assert.equal(formatReleaseYear({ year: 1990, uncertain: true }), "199x");
+  });
+});
+
+describe("formatReleaseDate", () => {
+  it("spells out the month and day when known", () => {
+    assert.equal(formatReleaseDate({ year: 2004, month: 5, day: 12 }), "12 May 2004");
+    assert.equal(formatReleaseDate({ year: 2004, month: 5 }), "May 2004");
+    assert.equal(formatReleaseDate({ year: 2004 }), "2004");
+  });
+});
+
+describe("getYearSpan", () => {
+  const albums = (...dates: (ReleaseDate | null)[]) =>
+    dates.map((releaseDate) => ({ releaseDate }) as Album);
+
+  it("spans the first year to the end of the last release", () => {
+    assert.deepEqual(getYearSpan(albums({ year: 1990, endYear: 1995 }, { year: 1986 }, null)), {
+      first: 1986,
+      last: 1995,
+    });
+  });
+
+  it("leaves out approximate dates", () => {
+    assert.deepEqual(getYearSpan(albums({ year: 1980, uncertain: true }, { year: 1986 })), {
+      first: 1986,
+      last: 1986,
+    });
+    assert.equal(getYearSpan(albums({ year: 1980, uncertain: true }, null)), null);
+  });
+});
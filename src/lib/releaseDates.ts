@@ -0,0 +1,38 @@
+import type { Album, ReleaseDate } from "../../scripts/types";
+
+/**
+ * Short date label for cards and lists: "2004", "1990–1995" or "199x".
+ */
+export function formatReleaseYear(date: ReleaseDate): string {
+  if (date.uncertain) return `${date.year / 10}x`;
+  return date.endYear ? `${date.year}–${date.endYear}` : String(date.year);
+}
+
+/**
+ * Full date label for an album page, e.g. "12 May 2004" or "May 2004",
+ * falling back to the short label.
+ */
+export function formatReleaseDate(date: ReleaseDate): string {
+  if (!date.month || date.uncertain) return formatReleaseYear(date);
+  return new Date(Date.UTC(date.year, date.month - 1, date.day ?? 1)).toLocaleDateString("en-GB", {
+    ...(date.day && { day: "numeric" }),
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * First and last release year of a set of albums, counting the end of
+ * multi-year releases. Approximate dates are left out. Null without any dates.
+ */
+export function getYearSpan(albums: Album[]): { first: number; last: number } | null {
+  const dates = albums.flatMap((album) =>
+    album.releaseDate && !album.releaseDate.uncertain ? [album.releaseDate] : [],
+  );
+  if (dates.length === 0) return null;
+  return {
+    first: Math.min(...dates.map((date) => date.year)),
+    last: Math.max(...dates.map((date) => date.endYear ?? date.year)),
+  };
+}
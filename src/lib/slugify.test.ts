@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { slugify, transliterate, uniqueSlug } from "./slugify";
+
+describe("transliterate", () => {
+  it("writes any script in ASCII and drops diacritics", () => {
+    assert.equal(transliterate("Кино"), "Kino");
+    assert.equal(transliterate("Αρχή"), "Archi");
+    assert.equal(transliterate("Björk"), "Bjork");
+    assert.equal(transliterate("Sigur Rós"), "Sigur Ros");
+  });
+});
+
+describe("slugify", () => {
+  it("joins words with single hyphens", () => {
+    assert.equal(slugify("Above & Beyond (UK)"), "above-beyond-uk");
+    assert.equal(slugify("--Motörhead--"), "motorhead");
+  });
+
+  it("transliterates non-Latin names", () => {
+    assert.equal(slugify("Группа крови"), "gruppa-krovi");
+    assert.equal(slugify("東京事変"), "dongjingshibian");
+  });
+
+  it("hashes a name with nothing to transliterate, the same each time", () => {
+    const slug = slugify("★☆");
+    assert.match(slug, /^[a-z0-9]+$/);
+    assert.equal(slugify("★☆"), slug);
+    assert.notEqual(slugify("☆★"), slug);
+  });
+});
+
+describe("uniqueSlug", () => {
+  it("numbers a slug that is already taken", () => {
+    const existing = new Set<string>();
+    assert.equal(uniqueSlug("Candlemass", existing, "Swe"), "candlemass-swe");
+    assert.equal(uniqueSlug("Candlemass", existing, "Swe"), "candlemass-swe-2");
+    assert.equal(uniqueSlug("Candlemass", existing, "Swe"), "candlemass-swe-3");
+    assert.equal(uniqueSlug("Candlemass", existing), "candlemass");
+    assert.equal(existing.size, 4);
+  });
+});
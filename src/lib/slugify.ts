@@ -1,14 +1,44 @@
+import anyAscii from "any-ascii";
+
+/**
+ * Readable ASCII form of a name in any script: "Кино" → "Kino",
+ * "Αρχή" → "Archi", "Björk" → "Bjork".
+ */
+export function transliterate(text: string): string {
+  // Strip diacritics first so Latin names read as before; NFC recomposes
+  // e.g. Japanese voiced kana, which have their own transliteration
+  return anyAscii(
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .normalize("NFC"),
+  );
+}
+
+/**
+ * FNV-1a hash of a string in base 36, for names with nothing to transliterate.
+ */
+function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
 /**
- * Convert a string to a URL-safe slug.
+ * Convert a string to a URL-safe slug. Non-Latin scripts are transliterated;
+ * a name that leaves nothing (e.g. only symbols) gets a stable hash, so a slug
+ * is never empty.
  */
 export function slugify(text: string): string {
-  return text
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "") // strip diacritics
+  const slug = transliterate(text)
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-+|-+$/g, "")
     .replace(/-{2,}/g, "-");
+  return slug || shortHash(text);
 }
 
 /**
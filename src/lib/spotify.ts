@@ -1,11 +1,29 @@
+import type { Artist } from "../../scripts/types";
+import { SCHEMA_VERSIONS } from "./dataMigrations";
 import { loadManifest } from "./manifestLoader";
 import type { SpotifyArtistManifest } from "./spotifyTypes";
 
 const manifest = await loadManifest<SpotifyArtistManifest>(
+  "spotifyArtistManifest",
   () => import("../../data/generated/spotifyArtistManifest.json"),
-  { generatedAt: "", totalQueried: 0, matched: 0, unmatched: 0, entries: {} },
+  {
+    schemaVersion: SCHEMA_VERSIONS.spotifyArtistManifest,
+    generatedAt: "",
+    totalQueried: 0,
+    matched: 0,
+    unmatched: 0,
+    entries: {},
+  },
 );
 
-export function getSpotifyArtistUrl(artistSlug: string): string | null {
-  return manifest.entries?.[artistSlug]?.spotifyUrl ?? null;
+/**
+ * The artist's Spotify URL. An artist merged after it was looked up keeps its
+ * entry under a slug now in `slugAliases`.
+ */
+export function getSpotifyArtistUrl(artist: Pick<Artist, "slug" | "slugAliases">): string | null {
+  for (const slug of [artist.slug, ...(artist.slugAliases ?? [])]) {
+    const url = manifest.entries?.[slug]?.spotifyUrl;
+    if (url) return url;
+  }
+  return null;
 }
@@ -1,9 +1,12 @@
+import { SCHEMA_VERSIONS } from "./dataMigrations";
 import { loadManifest } from "./manifestLoader";
 import type { SpotifyAlbumEntry, SpotifyAlbumManifest } from "./spotifyTypes";
 
 const manifest = await loadManifest<SpotifyAlbumManifest>(
+  "spotifyAlbumManifest",
   () => import("../../data/generated/spotifyAlbumManifest.json"),
   {
+    schemaVersion: SCHEMA_VERSIONS.spotifyAlbumManifest,
     generatedAt: "",
     totalArtistsQueried: 0,
     totalAlbumsMatched: 0,
@@ -12,11 +15,20 @@ const manifest = await loadManifest<SpotifyAlbumManifest>(
   },
 );
 
+/**
+ * Spotify data of an album, looked up under each of `ownerSlugs` in turn: an
+ * artist merged after its albums were matched keeps them under a slug now in
+ * `slugAliases`.
+ */
 export function getSpotifyAlbumData(
-  artistSlug: string,
+  ownerSlugs: string[],
   albumSlug: string,
 ): SpotifyAlbumEntry | null {
-  return manifest.entries?.[artistSlug]?.[albumSlug] ?? null;
+  for (const slug of ownerSlugs) {
+    const entry = manifest.entries?.[slug]?.[albumSlug];
+    if (entry) return entry;
+  }
+  return null;
 }
 
 export function formatDuration(durationMs: number): string {
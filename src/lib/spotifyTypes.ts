@@ -6,6 +6,7 @@ export interface SpotifyArtistEntry {
 }
 
 export interface SpotifyArtistManifest {
+  schemaVersion: number;
   generatedAt: string;
   totalQueried: number;
   matched: number;
@@ -37,6 +38,7 @@ export interface SpotifyAlbumEntry {
 }
 
 export interface SpotifyAlbumManifest {
+  schemaVersion: number;
   generatedAt: string;
   totalArtistsQueried: number;
   totalAlbumsMatched: number;